@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { NodeAdapter } from "tool-query";
+import {
+  jsonNodeAdapter,
+  evaluateQuery,
+  evaluateQueryLocated,
+  compileQuery,
+  iterateQuery,
+} from "tool-query";
+
+void suite("Node adapters", () => {
+  // Presents Maps as objects and Sets as arrays.
+  const collectionAdapter: NodeAdapter = {
+    isArray(node) {
+      return Array.isArray(node) || node instanceof Set;
+    },
+    isObject(node) {
+      return node instanceof Map;
+    },
+    child(node, key) {
+      if (node instanceof Map) {
+        const map = node as Map<string, unknown>;
+        return typeof key === "string" ? map.get(key) : undefined;
+      }
+      if (node instanceof Set) {
+        const set = node as Set<unknown>;
+        return typeof key === "number" ? [...set][key] : undefined;
+      }
+      return jsonNodeAdapter.child(node, key);
+    },
+    children(node) {
+      if (node instanceof Map) {
+        return [...(node as Map<string, unknown>).values()];
+      }
+      if (node instanceof Set) {
+        return [...(node as Set<unknown>)];
+      }
+      return Array.isArray(node) ? (node as unknown[]) : [];
+    },
+    keys(node) {
+      return node instanceof Map ?
+          [...(node as Map<string, unknown>).keys()]
+        : [];
+    },
+  };
+
+  const root = new Map<string, unknown>([
+    [
+      "store",
+      new Map<string, unknown>([
+        [
+          "books",
+          new Set([
+            new Map<string, unknown>([
+              ["title", "Sapiens"],
+              ["price", 25],
+              ["tags", new Set(["history"])],
+            ]),
+            new Map<string, unknown>([
+              ["title", "Dune"],
+              ["price", 10],
+              ["tags", new Set(["fiction", "classic"])],
+            ]),
+          ]),
+        ],
+      ]),
+    ],
+  ]);
+  const options = { nodeAdapter: collectionAdapter };
+
+  void test("should select children through the adapter", () => {
+    assert.deepEqual(evaluateQuery("$.store.books[*].title", root, options), [
+      "Sapiens",
+      "Dune",
+    ]);
+    assert.deepEqual(evaluateQuery("$.store.books[-1].title", root, options), [
+      "Dune",
+    ]);
+    assert.deepEqual(
+      evaluateQuery("$.store.books[::-1].price", root, options),
+      [10, 25],
+    );
+  });
+
+  void test("should select descendants through the adapter", () => {
+    assert.deepEqual(evaluateQuery("$..price", root, options), [25, 10]);
+    assert.deepEqual(compileQuery("$..price", options)(root), [25, 10]);
+    assert.deepEqual([...iterateQuery("$..price", root, options)], [25, 10]);
+  });
+
+  void test("should locate nodes through the adapter", () => {
+    assert.deepEqual(
+      evaluateQueryLocated("$..title", root, options).map((node) => node.path),
+      ["$['store']['books'][0]['title']", "$['store']['books'][1]['title']"],
+    );
+  });
+
+  void test("should filter through the adapter", () => {
+    const query = "$.store.books[?@.price < 20 && length(@.tags) == 2].title";
+    assert.deepEqual(evaluateQuery(query, root, options), ["Dune"]);
+    assert.deepEqual(compileQuery(query, options)(root), ["Dune"]);
+    assert.deepEqual([...iterateQuery(query, root, options)], ["Dune"]);
+  });
+
+  void test("should compare structured values through the adapter", () => {
+    const data = new Map<string, unknown>([
+      ["a", new Set([1, 2])],
+      ["b", new Set([1, 2])],
+      ["c", new Set([2, 1])],
+      ["d", new Map([["x", new Set([1])]])],
+      ["e", new Map([["x", new Set([1])]])],
+    ]);
+    assert.deepEqual(evaluateQuery("$[?$.a == $.b]", data, options).length, 5);
+    assert.deepEqual(evaluateQuery("$[?$.a == $.c]", data, options), []);
+    assert.deepEqual(evaluateQuery("$[?$.d == $.e]", data, options).length, 5);
+    assert.deepEqual(compileQuery("$[?$.a != $.c]", options)(data).length, 5);
+  });
+});
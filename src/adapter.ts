@@ -0,0 +1,139 @@
+import type { Node, NodeList } from "tool-json";
+import { isArray, isObject, getChild, getChildren, equal } from "tool-json";
+
+/**
+ * Structural access to the nodes of a query argument. Queries see data
+ * only through the node adapter of their context, which lets them run
+ * over values that aren't plain JSON, such as `Map`s, `Set`s, class
+ * instances, and immutable collections.
+ *
+ * An adapter must present each node as at most one of an array or an
+ * object. Any other node is treated as a primitive value.
+ *
+ * @category Adapter
+ */
+export interface NodeAdapter {
+  /**
+   * Returns `true` if the node is an array, whose children are selected
+   * by index.
+   */
+  isArray(node: Node): boolean;
+
+  /**
+   * Returns `true` if the node is an object, whose children are selected
+   * by member name.
+   */
+  isObject(node: Node): boolean;
+
+  /**
+   * Returns the element of an array node at a non-negative index, or the
+   * member of an object node with the given name, or `undefined` if the
+   * node has no such child.
+   */
+  child(node: Node, key: string | number): Node | undefined;
+
+  /**
+   * Returns the elements of an array node or the member values of an
+   * object node, in order, or an empty list for any other node.
+   */
+  children(node: Node): NodeList;
+
+  /**
+   * Returns the member names of an object node, in the same order as
+   * `children`, or an empty list for any other node.
+   */
+  keys(node: Node): readonly string[];
+}
+
+/**
+ * The default node adapter, which queries plain JSON values.
+ *
+ * @category Adapter
+ */
+export const jsonNodeAdapter: NodeAdapter = {
+  isArray,
+
+  isObject,
+
+  child(node: Node, key: string | number): Node | undefined {
+    if (typeof key === "number") {
+      return isArray(node) ? node[key] : undefined;
+    }
+    return getChild(node, key);
+  },
+
+  children: getChildren,
+
+  keys(node: Node): readonly string[] {
+    return isObject(node) ? Object.keys(node) : [];
+  },
+};
+
+/**
+ * Returns the number of elements in an array node, or `0` if the node
+ * isn't an array.
+ *
+ * @category Adapter
+ * @internal
+ */
+export function getArrayLength(node: Node, adapter: NodeAdapter): number {
+  if (adapter === jsonNodeAdapter) {
+    return isArray(node) ? node.length : 0;
+  }
+  return adapter.isArray(node) ? adapter.children(node).length : 0;
+}
+
+/**
+ * Returns `true` if two nodes are structurally equal when seen through
+ * the given node adapter.
+ *
+ * @category Adapter
+ * @internal
+ */
+export function equalNodes(x: Node, y: Node, adapter: NodeAdapter): boolean {
+  if (adapter === jsonNodeAdapter) {
+    return equal(x, y);
+  }
+
+  if (adapter.isArray(x)) {
+    if (!adapter.isArray(y)) {
+      return false;
+    }
+    const xs = adapter.children(x);
+    const ys = adapter.children(y);
+    if (xs.length !== ys.length) {
+      return false;
+    }
+    for (let i = 0; i < xs.length; i += 1) {
+      if (!equalNodes(xs[i], ys[i], adapter)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (adapter.isObject(x)) {
+    if (!adapter.isObject(y)) {
+      return false;
+    }
+    const names = adapter.keys(x);
+    if (names.length !== adapter.keys(y).length) {
+      return false;
+    }
+    for (const name of names) {
+      const child = adapter.child(y, name);
+      if (
+        child === undefined ||
+        !equalNodes(adapter.child(x, name), child, adapter)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (adapter.isArray(y) || adapter.isObject(y)) {
+    return false;
+  }
+  return equal(x, y);
+}
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { AsyncNodeAdapter, FunctionExtension } from "tool-query";
+import {
+  DeclaredType,
+  CycleMode,
+  evaluateQuery,
+  evaluateQueryAsync,
+} from "tool-query";
+
+void suite("Asynchronous evaluation", () => {
+  // Stands in for a remote document whose containers are fetched by path.
+  class Remote {
+    readonly path: string;
+    readonly value: object;
+
+    constructor(path: string, value: object) {
+      this.path = path;
+      this.value = value;
+    }
+  }
+
+  const users = [
+    { id: 1, name: "Alice", role: "admin" },
+    { id: 2, name: "Bob", role: "user" },
+    { id: 3, name: "Carol", role: "user" },
+  ];
+
+  const remoteAdapter = (fetched: string[]): AsyncNodeAdapter => {
+    const wrap = (value: unknown, path: string): unknown =>
+      typeof value === "object" && value !== null ?
+        new Remote(path, value)
+      : value;
+    return {
+      isArray(node) {
+        return node instanceof Remote && Array.isArray(node.value);
+      },
+      isObject(node) {
+        return node instanceof Remote && !Array.isArray(node.value);
+      },
+      async child(node, key) {
+        const remote = node as Remote;
+        const path = remote.path + "/" + key;
+        fetched.push(path);
+        await Promise.resolve();
+        return wrap((remote.value as Record<string, unknown>)[key], path);
+      },
+      async *entries(node) {
+        const remote = node as Remote;
+        for (const [key, value] of Object.entries(remote.value)) {
+          const path = remote.path + "/" + key;
+          fetched.push(path);
+          await Promise.resolve();
+          yield [
+            Array.isArray(remote.value) ? Number(key) : key,
+            wrap(value, path),
+          ];
+        }
+      },
+      length(node) {
+        return Promise.resolve(((node as Remote).value as unknown[]).length);
+      },
+    };
+  };
+
+  void test("should fetch only the children selected by name and index", async () => {
+    const fetched: string[] = [];
+    const asyncNodeAdapter = remoteAdapter(fetched);
+    const root = new Remote("", { users });
+    assert.deepEqual(
+      await evaluateQueryAsync("$.users[1].name", root, { asyncNodeAdapter }),
+      ["Bob"],
+    );
+    assert.deepEqual(fetched, ["/users", "/users/1", "/users/1/name"]);
+
+    fetched.length = 0;
+    assert.deepEqual(
+      await evaluateQueryAsync("$.users[-1].name", root, { asyncNodeAdapter }),
+      ["Carol"],
+    );
+    assert.deepEqual(fetched, ["/users", "/users/2", "/users/2/name"]);
+  });
+
+  void test("should stream children for slices and filters", async () => {
+    const fetched: string[] = [];
+    const asyncNodeAdapter = remoteAdapter(fetched);
+    const root = new Remote("", { users });
+    assert.deepEqual(
+      await evaluateQueryAsync("$.users[:2].id", root, { asyncNodeAdapter }),
+      [1, 2],
+    );
+    assert.deepEqual(fetched, [
+      "/users",
+      "/users/0",
+      "/users/1",
+      "/users/0/id",
+      "/users/1/id",
+    ]);
+
+    assert.deepEqual(
+      await evaluateQueryAsync("$.users[::-2].id", root, { asyncNodeAdapter }),
+      [3, 1],
+    );
+    assert.deepEqual(
+      await evaluateQueryAsync('$.users[?@.role == "user"].name', root, {
+        asyncNodeAdapter,
+      }),
+      ["Bob", "Carol"],
+    );
+    assert.deepEqual(
+      await evaluateQueryAsync("$..[?@.id > 2].name", root, {
+        asyncNodeAdapter,
+      }),
+      ["Carol"],
+    );
+  });
+
+  void test("should measure and compare structured values through the adapter", async () => {
+    const asyncNodeAdapter = remoteAdapter([]);
+    const root = new Remote("", {
+      xs: [
+        { tags: ["a", "b"], meta: { n: 1 } },
+        { tags: ["a"], meta: { n: 1, m: 2 } },
+        { tags: ["a", "b"], meta: { n: 2 } },
+      ],
+    });
+    const evaluate = (query: string) =>
+      evaluateQueryAsync(query, root, { asyncNodeAdapter });
+
+    assert.deepEqual(
+      await evaluate("$.xs[?length(@.tags) > 1].meta.n"),
+      [1, 2],
+    );
+    assert.deepEqual(await evaluate("$.xs[?length(@.meta) == 2].tags[0]"), [
+      "a",
+    ]);
+    assert.deepEqual(
+      await evaluate("$.xs[?@.tags == $.xs[0].tags].meta.n"),
+      [1, 2],
+    );
+    assert.deepEqual(
+      await evaluate("$.xs[?@.meta != $.xs[0].meta].meta.n"),
+      [1, 2],
+    );
+  });
+
+  void test("should await asynchronous function extensions", async () => {
+    const admins = new Set([1]);
+    const isAdmin = {
+      name: "isadmin",
+      parameterTypes: [DeclaredType.Value],
+      resultType: DeclaredType.Logical,
+      async evaluate([id]) {
+        await Promise.resolve();
+        return admins.has(id as number);
+      },
+    } as const satisfies FunctionExtension;
+
+    assert.deepEqual(
+      await evaluateQueryAsync("$[?isadmin(@.id)].name", users, {
+        functionExtensions: [isAdmin],
+      }),
+      ["Alice"],
+    );
+    assert.throws(
+      () =>
+        evaluateQuery("$[?isadmin(@.id)]", users, {
+          functionExtensions: [isAdmin],
+        }),
+      TypeError,
+    );
+  });
+
+  void test("should await promised children of plain values", async () => {
+    const root = {
+      a: Promise.resolve({ b: Promise.resolve(1) }),
+      c: [Promise.resolve(2), 3],
+    };
+    assert.deepEqual(await evaluateQueryAsync("$.a.b", root), [1]);
+    assert.deepEqual(await evaluateQueryAsync("$.c[*]", root), [2, 3]);
+    assert.deepEqual(await evaluateQueryAsync("$..[?@ > 1]", root), [2, 3]);
+  });
+
+  void test("should isolate concurrent evaluations", async () => {
+    const query = "$[?@ == $[0]]";
+    const [x, y] = await Promise.all([
+      evaluateQueryAsync(query, [1, 2, 1]),
+      evaluateQueryAsync(query, [2, 2, 1]),
+    ]);
+    assert.deepEqual(x, [1, 1]);
+    assert.deepEqual(y, [2, 2]);
+  });
+
+  void test("should detect cyclic references", async () => {
+    const root: { name: string; self?: unknown } = { name: "root" };
+    root.self = root;
+    assert.deepEqual(
+      await evaluateQueryAsync("$..name", root, { cycleMode: CycleMode.Skip }),
+      ["root"],
+    );
+  });
+});
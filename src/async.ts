@@ -0,0 +1,923 @@
+import type { Node, NodeList } from "tool-json";
+import { isString, unicodeLength, compare, equal } from "tool-json";
+import type { Query } from "./query.ts";
+import type { Segment, ChildSegment, DescendantSegment } from "./segment.ts";
+import { SegmentKind } from "./segment.ts";
+import type {
+  Selector,
+  NameSelector,
+  IndexSelector,
+  SliceSelector,
+  FilterSelector,
+} from "./selector.ts";
+import { SelectorKind } from "./selector.ts";
+import type {
+  ValueType,
+  LogicalType,
+  NodesType,
+  ExpressionType,
+  Expression,
+  ComparisonExpression,
+  ComparableExpression,
+  QueryExpression,
+  FunctionExpression,
+} from "./expression.ts";
+import {
+  DeclaredType,
+  ExpressionKind,
+  ComparisonOperator,
+} from "./expression.ts";
+import type { ValueFunctionExtension } from "./function.ts";
+import {
+  lengthFunction,
+  singularValue,
+  evaluateLogicalFunction,
+} from "./function.ts";
+import type { NodeAdapter } from "./adapter.ts";
+import { getArrayLength } from "./adapter.ts";
+import type { QueryContext, QueryContextOptions } from "./context.ts";
+import { coerceQueryContext } from "./context.ts";
+import {
+  visitQueryNode,
+  checkQueryDepth,
+  checkQueryOutput,
+  checkQueryInterrupt,
+} from "./limit.ts";
+import { enterQueryNode, getQueryNodePath } from "./cycle.ts";
+import { parseQuery } from "./parse.ts";
+import { formatNormalizedName } from "./format.ts";
+
+/**
+ * Structural access to the nodes of a query argument whose children may
+ * have to be fetched asynchronously, such as documents backed by
+ * a key-value store, paginated collections, or lazily loaded files.
+ * Any child, including one yielded by `entries`, may be a promise,
+ * which evaluation awaits before selecting it.
+ *
+ * @category Async
+ */
+export interface AsyncNodeAdapter {
+  /**
+   * Returns `true` if the node is an array, whose children are selected
+   * by index.
+   */
+  isArray(node: Node): boolean;
+
+  /**
+   * Returns `true` if the node is an object, whose children are selected
+   * by member name.
+   */
+  isObject(node: Node): boolean;
+
+  /**
+   * Fetches the element of an array node at a non-negative index, or the
+   * member of an object node with the given name, or `undefined` if the
+   * node has no such child.
+   */
+  child(
+    node: Node,
+    key: string | number,
+  ): Node | undefined | PromiseLike<Node | undefined>;
+
+  /**
+   * Streams the index and value of each element of an array node, or the
+   * name and value of each member of an object node, in order.
+   */
+  entries(
+    node: Node,
+  ):
+    | Iterable<readonly [string | number, Node]>
+    | AsyncIterable<readonly [string | number, Node]>;
+
+  /**
+   * Returns the number of elements in an array node.
+   */
+  length(node: Node): number | PromiseLike<number>;
+}
+
+/**
+ * Creates an asynchronous node adapter that presents the nodes seen
+ * through a synchronous node adapter, awaiting any children that
+ * are promises.
+ *
+ * @category Async
+ */
+export function createAsyncNodeAdapter(adapter: NodeAdapter): AsyncNodeAdapter {
+  return {
+    isArray(node: Node): boolean {
+      return adapter.isArray(node);
+    },
+
+    isObject(node: Node): boolean {
+      return adapter.isObject(node);
+    },
+
+    child(node: Node, key: string | number): Node | undefined {
+      return adapter.child(node, key);
+    },
+
+    *entries(node: Node): Generator<readonly [string | number, Node]> {
+      const children = adapter.children(node);
+      if (adapter.isArray(node)) {
+        for (let i = 0; i < children.length; i += 1) {
+          yield [i, children[i]];
+        }
+      } else if (adapter.isObject(node)) {
+        const names = adapter.keys(node);
+        for (let i = 0; i < names.length; i += 1) {
+          yield [names[i]!, children[i]];
+        }
+      }
+    },
+
+    length(node: Node): number {
+      return getArrayLength(node, adapter);
+    },
+  };
+}
+
+/**
+ * Evaluates a JSONPath query expression with the given root node as the
+ * query argument, awaiting children fetched through the asynchronous node
+ * adapter of the context, and the results of asynchronous function
+ * extensions. Name and index selectors fetch only the children they
+ * select, while wildcard, slice, and filter selectors stream children.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Async
+ */
+export async function evaluateQueryAsync(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): Promise<NodeList> {
+  const context = coerceQueryContext(options);
+
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  root = await root;
+
+  // Concurrent evaluations can interleave at each await, so every
+  // evaluation binds its query argument in a context of its own.
+  const runContext: QueryContext = {
+    ...context,
+    asyncNodeAdapter: getAsyncNodeAdapter(context),
+    queryArgument: root,
+    queryResults: new Map(),
+    queryNodeCount: 0,
+  };
+  checkQueryInterrupt(runContext);
+
+  let nodes: NodeList = [root];
+  for (const segment of query.segments) {
+    nodes = await evaluateSegmentAsync(segment, nodes, runContext);
+  }
+  return nodes;
+}
+
+/**
+ * Asynchronously evaluates a segment against the given node list.
+ *
+ * @category Async
+ */
+export function evaluateSegmentAsync(
+  segment: Segment,
+  nodes: Readonly<NodeList>,
+  context: QueryContext,
+): Promise<NodeList> {
+  const kind = segment.kind;
+  switch (kind) {
+    case SegmentKind.Child:
+      return evaluateChildSegmentAsync(segment, nodes, context);
+    case SegmentKind.Descendant:
+      return evaluateDescendantSegmentAsync(segment, nodes, context);
+    default:
+      throw new TypeError("Invalid SegmentKind: " + kind);
+  }
+}
+
+/** @internal */
+async function evaluateChildSegmentAsync(
+  segment: ChildSegment,
+  nodes: Readonly<NodeList>,
+  context: QueryContext,
+): Promise<NodeList> {
+  const output: NodeList = [];
+  for (const node of nodes) {
+    visitQueryNode(context);
+    for (const selector of segment.selectors) {
+      output.push(...(await evaluateSelectorAsync(selector, node, context)));
+      checkQueryOutput(context, output.length);
+    }
+  }
+  return output;
+}
+
+/** @internal */
+async function evaluateDescendantSegmentAsync(
+  segment: DescendantSegment,
+  nodes: Readonly<NodeList>,
+  context: QueryContext,
+): Promise<NodeList> {
+  const output: NodeList = [];
+  if (segment.selectors.length !== 0) {
+    for (const node of nodes) {
+      visitQueryNode(context);
+      const path = getQueryNodePath(context, node);
+      const ancestors =
+        context.cycleMode !== undefined ? new Map([[node, path]]) : undefined;
+      await evaluateDescendantsAsync(
+        segment.selectors,
+        node,
+        output,
+        context,
+        1,
+        path,
+        ancestors,
+      );
+    }
+  }
+  return output;
+}
+
+/**
+ * Applies the selectors of a descendant segment to a node, and then to
+ * each of its descendants in turn, streaming the children of each node
+ * only once the selectors have been applied to it.
+ *
+ * @category Async
+ * @internal
+ */
+async function evaluateDescendantsAsync(
+  selectors: readonly Selector[],
+  node: Node,
+  output: NodeList,
+  context: QueryContext,
+  depth: number,
+  path: string,
+  ancestors: Map<Node, string> | undefined,
+): Promise<void> {
+  for (const selector of selectors) {
+    output.push(...(await evaluateSelectorAsync(selector, node, context)));
+    checkQueryOutput(context, output.length);
+  }
+
+  const adapter = getAsyncNodeAdapter(context);
+  if (!adapter.isArray(node) && !adapter.isObject(node)) {
+    return;
+  }
+  for await (const [key, value] of adapter.entries(node)) {
+    const child = await value;
+    checkQueryDepth(context, depth);
+    visitQueryNode(context);
+    if (ancestors === undefined) {
+      await evaluateDescendantsAsync(
+        selectors,
+        child,
+        output,
+        context,
+        depth + 1,
+        path,
+        undefined,
+      );
+      continue;
+    }
+    const childPath =
+      path +
+      "[" +
+      (typeof key === "number" ? String(key) : formatNormalizedName(key)) +
+      "]";
+    if (enterQueryNode(context, child, childPath, ancestors)) {
+      await evaluateDescendantsAsync(
+        selectors,
+        child,
+        output,
+        context,
+        depth + 1,
+        childPath,
+        ancestors,
+      );
+      ancestors.delete(child);
+    }
+  }
+}
+
+/**
+ * Asynchronously evaluates a selector against the given node.
+ *
+ * @category Async
+ */
+export function evaluateSelectorAsync(
+  selector: Selector,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const kind = selector.kind;
+  switch (kind) {
+    case SelectorKind.Name:
+      return evaluateNameSelectorAsync(selector, node, context);
+    case SelectorKind.Wildcard:
+      return evaluateWildcardSelectorAsync(node, context);
+    case SelectorKind.Index:
+      return evaluateIndexSelectorAsync(selector, node, context);
+    case SelectorKind.Slice:
+      return evaluateSliceSelectorAsync(selector, node, context);
+    case SelectorKind.Filter:
+      return evaluateFilterSelectorAsync(selector, node, context);
+    default:
+      throw new TypeError("Invalid SelectorKind: " + kind);
+  }
+}
+
+/** @internal */
+async function evaluateNameSelectorAsync(
+  selector: NameSelector,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const adapter = getAsyncNodeAdapter(context);
+  const output: NodeList = [];
+  if (adapter.isObject(node)) {
+    const child = await adapter.child(node, selector.name);
+    if (child !== undefined) {
+      output.push(child);
+    }
+  }
+  return output;
+}
+
+/** @internal */
+async function evaluateWildcardSelectorAsync(
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const adapter = getAsyncNodeAdapter(context);
+  const output: NodeList = [];
+  if (adapter.isArray(node) || adapter.isObject(node)) {
+    for await (const [, value] of adapter.entries(node)) {
+      output.push(await value);
+      checkQueryOutput(context, output.length);
+    }
+  }
+  return output;
+}
+
+/** @internal */
+async function evaluateIndexSelectorAsync(
+  selector: IndexSelector,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const adapter = getAsyncNodeAdapter(context);
+  const output: NodeList = [];
+  if (!adapter.isArray(node)) {
+    return output;
+  }
+
+  let index = selector.index;
+  if (index < 0) {
+    index += await adapter.length(node);
+  }
+
+  if (index >= 0) {
+    const child = await adapter.child(node, index);
+    if (child !== undefined) {
+      output.push(child);
+    }
+  }
+  return output;
+}
+
+/** @internal */
+async function evaluateSliceSelectorAsync(
+  selector: SliceSelector,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const adapter = getAsyncNodeAdapter(context);
+  const output: NodeList = [];
+  const step = selector.step ?? 1;
+  if (!adapter.isArray(node) || step === 0) {
+    return output;
+  }
+
+  // Forward slices with non-negative bounds don't depend on the length
+  // of the array, and so can stream its elements.
+  if (
+    step > 0 &&
+    (selector.start === undefined || selector.start >= 0) &&
+    (selector.end === undefined || selector.end >= 0)
+  ) {
+    const start = selector.start ?? 0;
+    const end = selector.end;
+    if (end !== undefined && end <= start) {
+      return output;
+    }
+    let i = 0;
+    for await (const [, value] of adapter.entries(node)) {
+      if (i >= start && (i - start) % step === 0) {
+        output.push(await value);
+        checkQueryOutput(context, output.length);
+      }
+      i += 1;
+      if (end !== undefined && i >= end) {
+        break;
+      }
+    }
+    return output;
+  }
+
+  const len = await adapter.length(node);
+  if (len === 0) {
+    return output;
+  }
+
+  if (step > 0) {
+    let start = selector.start ?? 0;
+    let end = selector.end ?? len;
+
+    start = start >= 0 ? start : len + start;
+    end = end >= 0 ? end : len + end;
+
+    const lower = Math.min(Math.max(start, 0), len);
+    const upper = Math.min(Math.max(end, 0), len);
+    for (let i = lower; i < upper; i += step) {
+      output.push(await adapter.child(node, i));
+      checkQueryOutput(context, output.length);
+    }
+  } else {
+    let start = selector.start ?? len - 1;
+    let end = selector.end ?? -len - 1;
+
+    start = start >= 0 ? start : len + start;
+    end = end >= 0 ? end : len + end;
+
+    const upper = Math.min(Math.max(start, -1), len - 1);
+    const lower = Math.min(Math.max(end, -1), len - 1);
+    for (let i = upper; i > lower; i += step) {
+      output.push(await adapter.child(node, i));
+      checkQueryOutput(context, output.length);
+    }
+  }
+
+  return output;
+}
+
+/** @internal */
+async function evaluateFilterSelectorAsync(
+  selector: FilterSelector,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const adapter = getAsyncNodeAdapter(context);
+  const output: NodeList = [];
+  if (!adapter.isArray(node) && !adapter.isObject(node)) {
+    return output;
+  }
+  for await (const [, value] of adapter.entries(node)) {
+    const child = await value;
+    visitQueryNode(context);
+    if (await evaluateExpressionAsync(selector.expression, child, context)) {
+      output.push(child);
+      checkQueryOutput(context, output.length);
+    }
+  }
+  return output;
+}
+
+/**
+ * Asynchronously evaluates a logical expression against the given node.
+ *
+ * @category Async
+ */
+export async function evaluateExpressionAsync(
+  expression: Expression,
+  node: Node,
+  context: QueryContext,
+): Promise<boolean> {
+  const kind = expression.kind;
+  switch (kind) {
+    case ExpressionKind.Or:
+      for (const operand of expression.operands) {
+        if (await evaluateExpressionAsync(operand, node, context)) {
+          return true;
+        }
+      }
+      return false;
+    case ExpressionKind.And:
+      for (const operand of expression.operands) {
+        if (!(await evaluateExpressionAsync(operand, node, context))) {
+          return false;
+        }
+      }
+      return true;
+    case ExpressionKind.Comparison:
+      return evaluateComparisonExpressionAsync(expression, node, context);
+    case ExpressionKind.Not:
+      return !(await evaluateExpressionAsync(
+        expression.operand,
+        node,
+        context,
+      ));
+    case ExpressionKind.Query:
+      return (
+        (await evaluateQueryExpressionAsync(expression, node, context))
+          .length !== 0
+      );
+    case ExpressionKind.Literal:
+      throw new TypeError("Invalid literal expression");
+    case ExpressionKind.Function:
+      return evaluateFunctionTestExpressionAsync(expression, node, context);
+    default:
+      throw new TypeError("Invalid ExpressionKind: " + kind);
+  }
+}
+
+/** @internal */
+async function evaluateComparisonExpressionAsync(
+  expression: ComparisonExpression,
+  node: Node,
+  context: QueryContext,
+): Promise<boolean> {
+  const lhs = await evaluateComparableExpressionAsync(
+    expression.lhs,
+    node,
+    context,
+  );
+  const rhs = await evaluateComparableExpressionAsync(
+    expression.rhs,
+    node,
+    context,
+  );
+  const operator = expression.operator;
+  if (lhs.length === 0 || rhs.length === 0) {
+    switch (operator) {
+      case ComparisonOperator.Equal:
+      case ComparisonOperator.LessThanOrEqual:
+      case ComparisonOperator.GreaterThanOrEqual:
+        return lhs.length === rhs.length;
+      case ComparisonOperator.NotEqual:
+        return lhs.length !== rhs.length;
+      case ComparisonOperator.LessThan:
+      case ComparisonOperator.GreaterThan:
+        return false;
+      default:
+        throw new TypeError("Invalid ComparisonOperator: " + operator);
+    }
+  } else if (lhs.length !== 1 || rhs.length !== 1) {
+    return false;
+  }
+
+  // Structured values are compared through the asynchronous node adapter.
+  switch (operator) {
+    case ComparisonOperator.Equal:
+      return equalNodesAsync(lhs[0], rhs[0], getAsyncNodeAdapter(context));
+    case ComparisonOperator.NotEqual:
+      return !(await equalNodesAsync(
+        lhs[0],
+        rhs[0],
+        getAsyncNodeAdapter(context),
+      ));
+    case ComparisonOperator.LessThan:
+      return (compare(lhs[0], rhs[0]) ?? 1) < 0;
+    case ComparisonOperator.LessThanOrEqual:
+      return (compare(lhs[0], rhs[0]) ?? 1) <= 0;
+    case ComparisonOperator.GreaterThan:
+      return (compare(lhs[0], rhs[0]) ?? -1) > 0;
+    case ComparisonOperator.GreaterThanOrEqual:
+      return (compare(lhs[0], rhs[0]) ?? -1) >= 0;
+    default:
+      throw new TypeError("Invalid ComparisonOperator: " + operator);
+  }
+}
+
+/** @internal */
+async function evaluateFunctionTestExpressionAsync(
+  expression: FunctionExpression,
+  node: Node,
+  context: QueryContext,
+): Promise<boolean> {
+  const func = expression.func;
+  const args = await evaluateFunctionArgumentsAsync(expression, node, context);
+
+  const resultType = func.resultType;
+  switch (resultType) {
+    case DeclaredType.Value:
+      throw new TypeError(
+        "ValueType function not supported in test expression",
+      );
+    case DeclaredType.Logical:
+      return evaluateLogicalFunction(func, expression.regexp, args, context);
+    case DeclaredType.Nodes:
+      return (await func.evaluate(args, context)).length !== 0;
+    default:
+      throw new TypeError("Invalid DeclaredType: " + resultType);
+  }
+}
+
+/** @internal */
+async function evaluateComparableExpressionAsync(
+  expression: ComparableExpression,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  const kind = expression.kind;
+  switch (kind) {
+    case ExpressionKind.Literal:
+      return [expression.value];
+    case ExpressionKind.Query:
+      return evaluateQueryExpressionAsync(expression, node, context);
+    case ExpressionKind.Function: {
+      const func = expression.func;
+      if (func.resultType !== DeclaredType.Value) {
+        throw new TypeError(
+          "Only ValueType functions are supported in comparison expressions",
+        );
+      }
+      const args = await evaluateFunctionArgumentsAsync(
+        expression,
+        node,
+        context,
+      );
+      const value = await evaluateValueFunctionAsync(func, args, context);
+      return value !== undefined ? [value] : [];
+    }
+    default:
+      throw new TypeError("Invalid ComparableExpressionKind: " + kind);
+  }
+}
+
+/**
+ * Asynchronously evaluates a query expression against the given node,
+ * computing the results of absolute queries once per query evaluation.
+ *
+ * @category Async
+ * @internal
+ */
+async function evaluateQueryExpressionAsync(
+  expression: QueryExpression,
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  if (expression.identifier === "@") {
+    return evaluateSegmentsAsync(expression.segments, node, context);
+  } else if (expression.identifier === "$") {
+    let nodes = context.queryResults?.get(expression);
+    if (nodes === undefined) {
+      nodes = await evaluateSegmentsAsync(
+        expression.segments,
+        context.queryArgument,
+        context,
+      );
+      context.queryResults?.set(expression, nodes);
+    }
+    return nodes;
+  } else {
+    throw new TypeError(
+      "Unsupported node identifier: " + expression.identifier,
+    );
+  }
+}
+
+/** @internal */
+async function evaluateFunctionArgumentsAsync(
+  expression: FunctionExpression,
+  node: Node,
+  context: QueryContext,
+): Promise<ExpressionType[]> {
+  const parameterTypes = expression.func.parameterTypes;
+  if (expression.args.length !== parameterTypes.length) {
+    throw new TypeError(
+      "Expected " +
+        parameterTypes.length +
+        " arguments for function " +
+        expression.func.name +
+        ", but received " +
+        expression.args.length +
+        " arguments",
+    );
+  }
+
+  const args: ExpressionType[] = [];
+  for (let i = 0; i < parameterTypes.length; i += 1) {
+    const parameterType = parameterTypes[i]!;
+    const arg = expression.args[i]!;
+    switch (parameterType) {
+      case DeclaredType.Value:
+        args.push(await evaluateValueArgumentAsync(arg, node, context));
+        break;
+      case DeclaredType.Logical:
+        args.push(await evaluateLogicalArgumentAsync(arg, node, context));
+        break;
+      case DeclaredType.Nodes:
+        args.push(await evaluateNodesArgumentAsync(arg, node, context));
+        break;
+      default:
+        throw new TypeError("Invalid DeclaredType: " + parameterType);
+    }
+  }
+  return args;
+}
+
+/** @internal */
+async function evaluateValueArgumentAsync(
+  expression: Expression,
+  node: Node,
+  context: QueryContext,
+): Promise<ValueType> {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    if (func.resultType !== DeclaredType.Value) {
+      throw new TypeError(
+        "Only ValueType functions are supported in ValueType argument position",
+      );
+    }
+    const args = await evaluateFunctionArgumentsAsync(
+      expression,
+      node,
+      context,
+    );
+    return evaluateValueFunctionAsync(func, args, context);
+  }
+
+  if (expression.kind === ExpressionKind.Literal) {
+    return expression.value;
+  }
+
+  if (expression.kind === ExpressionKind.Query) {
+    return singularValue(
+      await evaluateQueryExpressionAsync(expression, node, context),
+    );
+  }
+
+  throw new TypeError(
+    "ValueType function argument must be a ValueType function expression, a literal expression, or a singular query expression",
+  );
+}
+
+/** @internal */
+async function evaluateLogicalArgumentAsync(
+  expression: Expression,
+  node: Node,
+  context: QueryContext,
+): Promise<LogicalType> {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    if (func.resultType === DeclaredType.Value) {
+      throw new TypeError(
+        "ValueType function not supported in LogicalType argument position",
+      );
+    }
+    return evaluateFunctionTestExpressionAsync(expression, node, context);
+  }
+
+  return evaluateExpressionAsync(expression, node, context);
+}
+
+/** @internal */
+async function evaluateNodesArgumentAsync(
+  expression: Expression,
+  node: Node,
+  context: QueryContext,
+): Promise<NodesType> {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    if (func.resultType !== DeclaredType.Nodes) {
+      throw new TypeError(
+        "Only NodesType functions are supported in NodesType argument position",
+      );
+    }
+    const args = await evaluateFunctionArgumentsAsync(
+      expression,
+      node,
+      context,
+    );
+    return func.evaluate(args, context);
+  }
+
+  if (expression.kind === ExpressionKind.Query) {
+    return evaluateQueryExpressionAsync(expression, node, context);
+  }
+
+  throw new TypeError(
+    "NodesType function argument must be a NodesType function expression or a query expression",
+  );
+}
+
+/**
+ * Evaluates a ValueType function, measuring the arguments of `length()`
+ * through the asynchronous node adapter.
+ *
+ * @internal
+ */
+async function evaluateValueFunctionAsync(
+  func: ValueFunctionExtension,
+  args: readonly ExpressionType[],
+  context: QueryContext,
+): Promise<ValueType> {
+  if (func !== lengthFunction) {
+    return func.evaluate(args, context);
+  }
+  const value = args[0];
+  const adapter = getAsyncNodeAdapter(context);
+  if (isString(value)) {
+    return unicodeLength(value);
+  } else if (adapter.isArray(value)) {
+    return adapter.length(value);
+  } else if (adapter.isObject(value)) {
+    let count = 0;
+    for await (const _ of adapter.entries(value)) {
+      count += 1;
+    }
+    return count;
+  }
+  return undefined;
+}
+
+/**
+ * Returns `true` if two nodes are structurally equal when seen through
+ * the given asynchronous node adapter.
+ *
+ * @internal
+ */
+async function equalNodesAsync(
+  x: Node,
+  y: Node,
+  adapter: AsyncNodeAdapter,
+): Promise<boolean> {
+  if (adapter.isArray(x)) {
+    if (!adapter.isArray(y)) {
+      return false;
+    }
+    const length = await adapter.length(x);
+    if (length !== (await adapter.length(y))) {
+      return false;
+    }
+    for (let i = 0; i < length; i += 1) {
+      if (
+        !(await equalNodesAsync(
+          await adapter.child(x, i),
+          await adapter.child(y, i),
+          adapter,
+        ))
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (adapter.isObject(x)) {
+    if (!adapter.isObject(y)) {
+      return false;
+    }
+    let count = 0;
+    for await (const [name, value] of adapter.entries(x)) {
+      const child = await adapter.child(y, name);
+      if (
+        child === undefined ||
+        !(await equalNodesAsync(await value, child, adapter))
+      ) {
+        return false;
+      }
+      count += 1;
+    }
+    for await (const _ of adapter.entries(y)) {
+      count -= 1;
+    }
+    return count === 0;
+  }
+
+  if (adapter.isArray(y) || adapter.isObject(y)) {
+    return false;
+  }
+  return equal(x, y);
+}
+
+/** @internal */
+async function evaluateSegmentsAsync(
+  segments: readonly Segment[],
+  node: Node,
+  context: QueryContext,
+): Promise<NodeList> {
+  let nodes: NodeList = [node];
+  for (const segment of segments) {
+    nodes = await evaluateSegmentAsync(segment, nodes, context);
+  }
+  return nodes;
+}
+
+/**
+ * Returns the asynchronous node adapter of a query context, falling back
+ * to one derived from its synchronous node adapter.
+ *
+ * @category Async
+ * @internal
+ */
+function getAsyncNodeAdapter(context: QueryContext): AsyncNodeAdapter {
+  return (
+    context.asyncNodeAdapter ?? createAsyncNodeAdapter(context.nodeAdapter)
+  );
+}
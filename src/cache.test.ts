@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { FunctionExtension } from "tool-query";
+import {
+  QueryError,
+  QueryErrorCode,
+  QueryLimitError,
+  DeclaredType,
+  createQueryCache,
+  createQueryContext,
+  parseQuery,
+  evaluateQuery,
+} from "tool-query";
+
+void suite("Query caches", () => {
+  const even = {
+    name: "even",
+    parameterTypes: [DeclaredType.Value],
+    resultType: DeclaredType.Logical,
+    evaluate([value]) {
+      return typeof value === "number" && value % 2 === 0;
+    },
+  } as const satisfies FunctionExtension;
+
+  void test("should reuse parsed queries", () => {
+    const queryCache = createQueryCache();
+    const query = parseQuery("$.a[0]", { queryCache });
+    assert.equal(parseQuery("$.a[0]", { queryCache }), query);
+    assert.notEqual(parseQuery("$.a[1]", { queryCache }), query);
+    assert.equal(queryCache.size, 2);
+  });
+
+  void test("should cache queries parsed during evaluation", () => {
+    const queryCache = createQueryCache();
+    assert.deepEqual(evaluateQuery("$[1]", [1, 2], { queryCache }), [2]);
+    assert.deepEqual(evaluateQuery("$[1]", [3, 4], { queryCache }), [4]);
+    assert.equal(queryCache.size, 1);
+  });
+
+  void test("should not cache malformed queries", () => {
+    const queryCache = createQueryCache();
+    assert.throws(() => parseQuery("$[", { queryCache }), QueryError);
+    assert.equal(queryCache.size, 0);
+  });
+
+  void test("should evict the least recently used query", () => {
+    const queryCache = createQueryCache(2);
+    const a = parseQuery("$.a", { queryCache });
+    const b = parseQuery("$.b", { queryCache });
+    assert.equal(parseQuery("$.a", { queryCache }), a);
+    parseQuery("$.c", { queryCache });
+    assert.equal(queryCache.size, 2);
+    assert.equal(parseQuery("$.a", { queryCache }), a);
+    assert.notEqual(parseQuery("$.b", { queryCache }), b);
+  });
+
+  void test("should key queries by function extensions", () => {
+    const queryCache = createQueryCache();
+    const query = parseQuery("$[?even(@)]", {
+      queryCache,
+      functionExtensions: [even],
+    });
+    assert.throws(() => parseQuery("$[?even(@)]", { queryCache }), QueryError);
+    assert.equal(
+      parseQuery("$[?even(@)]", { queryCache, functionExtensions: [even] }),
+      query,
+    );
+    assert.notEqual(
+      parseQuery("$[?even(@)]", {
+        queryCache,
+        functionExtensions: [{ ...even }],
+      }),
+      query,
+    );
+  });
+
+  void test("should enforce parse limits on cached queries", () => {
+    const queryCache = createQueryCache();
+    parseQuery("$[?(((@.a)))]", { queryCache });
+    assert.throws(
+      () =>
+        parseQuery("$[?(((@.a)))]", {
+          queryCache,
+          parseLimits: { maxNesting: 1 },
+        }),
+      QueryLimitError,
+    );
+  });
+
+  void test("should enforce safe mode on cached queries", () => {
+    const queryCache = createQueryCache();
+    parseQuery("$[?match(@, '(a{100}){200}')]", { queryCache });
+    assert.throws(
+      () =>
+        parseQuery("$[?match(@, '(a{100}){200}')]", {
+          queryCache,
+          safeRegexps: true,
+        }),
+      (error: unknown) =>
+        error instanceof QueryError &&
+        error.code === QueryErrorCode.InvalidRegexp,
+    );
+  });
+
+  void test("should share caches through query contexts", () => {
+    const context = createQueryContext({ queryCache: createQueryCache() });
+    assert.equal(parseQuery("$..a", context), parseQuery("$..a", context));
+  });
+
+  void test("should clear cached queries", () => {
+    const queryCache = createQueryCache();
+    parseQuery("$", { queryCache });
+    queryCache.clear();
+    assert.equal(queryCache.size, 0);
+  });
+});
@@ -0,0 +1,154 @@
+import type { Query } from "./query.ts";
+import type { FunctionExtension } from "./function.ts";
+
+/**
+ * A bounded cache of parsed JSONPath queries, which evicts the least
+ * recently used query when full. Queries are keyed by their source string
+ * and by the function extensions they were parsed with, since the same
+ * string can parse differently with different function extensions.
+ *
+ * Cached queries are shared by every parse of the same input,
+ * and so must not be mutated.
+ *
+ * @category Cache
+ */
+export interface QueryCache {
+  /**
+   * The maximum number of queries held by the cache.
+   */
+  readonly capacity: number;
+
+  /**
+   * The number of queries currently held by the cache.
+   */
+  readonly size: number;
+
+  /**
+   * Returns the cached query for the given input and function extensions,
+   * or `undefined` if no such query is cached.
+   */
+  get(
+    input: string,
+    functionExtensions:
+      | { readonly [name: string]: FunctionExtension }
+      | undefined,
+  ): Query | undefined;
+
+  /**
+   * Caches the query parsed from the given input and function extensions.
+   */
+  set(
+    input: string,
+    functionExtensions:
+      | { readonly [name: string]: FunctionExtension }
+      | undefined,
+    query: Query,
+  ): void;
+
+  /**
+   * Removes all queries from the cache.
+   */
+  clear(): void;
+}
+
+/**
+ * Creates a new query cache that holds at most `capacity` queries.
+ *
+ * @category Cache
+ */
+export function createQueryCache(capacity: number = 256): QueryCache {
+  const entries = new Map<string, Query>();
+
+  return {
+    capacity,
+
+    get size(): number {
+      return entries.size;
+    },
+
+    get(input, functionExtensions): Query | undefined {
+      const key = getCacheKey(input, functionExtensions);
+      const query = entries.get(key);
+      if (query !== undefined) {
+        // Move the entry to the most recently used position.
+        entries.delete(key);
+        entries.set(key, query);
+      }
+      return query;
+    },
+
+    set(input, functionExtensions, query): void {
+      if (capacity <= 0) {
+        return;
+      }
+      const key = getCacheKey(input, functionExtensions);
+      entries.delete(key);
+      entries.set(key, query);
+      while (entries.size > capacity) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+  };
+}
+
+/** @internal */
+const registryKeys = new WeakMap<object, string>();
+
+/** @internal */
+const functionIds = new WeakMap<FunctionExtension, number>();
+
+/** @internal */
+let nextFunctionId = 0;
+
+/**
+ * Returns the cache key of a query string parsed with the given
+ * function extensions.
+ *
+ * @internal
+ */
+function getCacheKey(
+  input: string,
+  functionExtensions:
+    | { readonly [name: string]: FunctionExtension }
+    | undefined,
+): string {
+  return getRegistryKey(functionExtensions) + "\n" + input;
+}
+
+/**
+ * Returns a key that identifies the contents of a function extension
+ * registry, so that distinct registry objects with the same function
+ * extensions share cached queries. The key never contains a line feed.
+ *
+ * @internal
+ */
+function getRegistryKey(
+  functionExtensions:
+    | { readonly [name: string]: FunctionExtension }
+    | undefined,
+): string {
+  if (functionExtensions === undefined) {
+    return "";
+  }
+
+  let key = registryKeys.get(functionExtensions);
+  if (key === undefined) {
+    key = "";
+    for (const name of Object.keys(functionExtensions).sort()) {
+      const functionExtension = functionExtensions[name]!;
+      let id = functionIds.get(functionExtension);
+      if (id === undefined) {
+        id = nextFunctionId;
+        nextFunctionId += 1;
+        functionIds.set(functionExtension, id);
+      }
+      key += JSON.stringify(name) + ":" + id + ",";
+    }
+    registryKeys.set(functionExtensions, key);
+  }
+  return key;
+}
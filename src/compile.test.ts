@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { FunctionExtension } from "tool-query";
+import {
+  DeclaredType,
+  createQuery,
+  createChildSegment,
+  createFilterSelector,
+  createFunctionExpression,
+  lengthFunction,
+  compileQuery,
+  compileQueryLocated,
+  evaluateQuery,
+  evaluateQueryLocated,
+} from "tool-query";
+
+void suite("Compiled queries", () => {
+  const value = {
+    o: { j: 1, k: 2 },
+    a: [5, 3, [{ j: 4 }, { k: 6 }]],
+    s: [
+      { n: "ab", v: 1 },
+      { n: "abc", v: 2 },
+      { n: "b", v: null },
+    ],
+  } as const;
+
+  const queries = [
+    "$",
+    "$.o.j",
+    "$.*",
+    "$..*",
+    "$..[0]",
+    "$.a[-1][-2]",
+    "$.a[1:]",
+    "$.a[::-1]",
+    "$.a[::0]",
+    "$.o[0:1]",
+    "$.s[*]['n', 'v']",
+    "$.s[?@.v]",
+    "$.s[?!@.v]",
+    "$.s[?@.v == null]",
+    "$.s[?@.v != 1]",
+    "$.s[?@.v < 2 || @.n == 'b']",
+    "$.s[?@.v >= 1 && @.v <= 1]",
+    "$.s[?@.v > $.o.j]",
+    "$.s[?@.x <= @.y]",
+    "$.s[?length(@.n) == 3]",
+    "$.s[?count(@.*) == 2]",
+    "$.s[?match(@.n, 'a.*')]",
+    "$.s[?search(@.n, 'c')]",
+    "$.s[?value(@.v) == 2]",
+    "$..[?@.j]",
+  ];
+
+  void test("should evaluate like uncompiled queries", () => {
+    for (const query of queries) {
+      assert.deepEqual(
+        compileQuery(query)(value),
+        evaluateQuery(query, value),
+        query,
+      );
+    }
+  });
+
+  void test("should locate like uncompiled queries", () => {
+    for (const query of queries) {
+      assert.deepEqual(
+        compileQueryLocated(query)(value),
+        evaluateQueryLocated(query, value),
+        query,
+      );
+    }
+  });
+
+  void test("should be reusable across root nodes", () => {
+    const query = compileQuery("$[?@ > 1]");
+    assert.deepEqual(query([1, 2, 3]), [2, 3]);
+    assert.deepEqual(query({ a: 0, b: 5 }), [5]);
+    assert.deepEqual(query("x"), []);
+  });
+
+  void test("should bind function extensions", () => {
+    const even = {
+      name: "even",
+      parameterTypes: [DeclaredType.Value],
+      resultType: DeclaredType.Logical,
+      evaluate([value]) {
+        return typeof value === "number" && value % 2 === 0;
+      },
+    } as const satisfies FunctionExtension;
+
+    const query = compileQuery("$[?even(@)]", {
+      functionExtensions: [even],
+    });
+    assert.deepEqual(query([1, 2, 3, 4]), [2, 4]);
+  });
+
+  void test("should reject invalid expressions at compile time", () => {
+    assert.throws(
+      () =>
+        compileQuery(
+          createQuery([
+            createChildSegment([
+              createFilterSelector(
+                createFunctionExpression(lengthFunction, []),
+              ),
+            ]),
+          ]),
+        ),
+      TypeError,
+    );
+  });
+});
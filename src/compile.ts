@@ -0,0 +1,1212 @@
+import type { Node, NodeList } from "tool-json";
+import { compare } from "tool-json";
+import type { Query } from "./query.ts";
+import type { Segment, ChildSegment, DescendantSegment } from "./segment.ts";
+import { SegmentKind } from "./segment.ts";
+import type {
+  Selector,
+  NameSelector,
+  WildcardSelector,
+  IndexSelector,
+  SliceSelector,
+  FilterSelector,
+} from "./selector.ts";
+import { SelectorKind } from "./selector.ts";
+import type {
+  ExpressionType,
+  Expression,
+  OrExpression,
+  AndExpression,
+  ComparableExpression,
+  ComparisonExpression,
+  NotExpression,
+  QueryExpression,
+  LiteralExpression,
+  FunctionExpression,
+} from "./expression.ts";
+import { ExpressionKind, ComparisonOperator } from "./expression.ts";
+import { DeclaredType } from "./expression.ts";
+import {
+  singularValue,
+  evaluateLogicalFunction,
+  syncFunctionResult,
+} from "./function.ts";
+import type { LocatedNode, LocatedNodeList } from "./location.ts";
+import { createLocatedNode } from "./location.ts";
+import type { QueryContext, QueryContextOptions } from "./context.ts";
+import { coerceQueryContext } from "./context.ts";
+import { parseQuery } from "./parse.ts";
+import {
+  getDescendantNodes,
+  getLocatedDescendantNodes,
+  locateChildNode,
+} from "./evaluate.ts";
+import { getArrayLength, equalNodes } from "./adapter.ts";
+import {
+  visitQueryNode,
+  checkQueryOutput,
+  checkQueryInterrupt,
+} from "./limit.ts";
+
+/**
+ * A reusable function that evaluates a compiled JSONPath query
+ * with the given root node as the query argument.
+ *
+ * @category Compile
+ */
+export type CompiledQuery = (root: Node) => NodeList;
+
+/**
+ * A reusable function that evaluates a compiled JSONPath query with the
+ * given root node as the query argument, pairing each resulting node with
+ * the normalized path of its location in the root node.
+ *
+ * @category Compile
+ */
+export type CompiledLocatedQuery = (root: Node) => LocatedNodeList;
+
+/**
+ * A compiled segment that selects nodes from the given node list.
+ *
+ * @category Compile
+ */
+export type CompiledSegment = (
+  nodes: Readonly<NodeList>,
+  context: QueryContext,
+) => NodeList;
+
+/**
+ * A compiled selector that appends the nodes it selects
+ * from the given node to the output node list.
+ *
+ * @category Compile
+ */
+export type CompiledSelector = (
+  node: Node,
+  output: NodeList,
+  context: QueryContext,
+) => void;
+
+/**
+ * A compiled segment that selects located nodes from the given
+ * located node list.
+ *
+ * @internal
+ */
+type CompiledLocatedSegment = (
+  nodes: Readonly<LocatedNodeList>,
+  context: QueryContext,
+) => LocatedNodeList;
+
+/**
+ * A compiled selector that appends the located nodes it selects
+ * from the given located node to the output node list.
+ *
+ * @internal
+ */
+type CompiledLocatedSelector = (
+  node: LocatedNode,
+  output: LocatedNodeList,
+  context: QueryContext,
+) => void;
+
+/**
+ * A compiled logical expression that tests the given node.
+ *
+ * @category Compile
+ */
+export type CompiledExpression = (node: Node, context: QueryContext) => boolean;
+
+/**
+ * A compiled comparable expression that produces a node list
+ * from the given node.
+ *
+ * @internal
+ */
+type CompiledComparable = (node: Node, context: QueryContext) => NodeList;
+
+/**
+ * A compiled function argument that produces an argument value
+ * from the given node.
+ *
+ * @internal
+ */
+type CompiledArgument = (node: Node, context: QueryContext) => ExpressionType;
+
+/**
+ * Compiles a JSONPath query expression into a reusable function.
+ * The AST is traversed once, when the query is compiled, so evaluating
+ * the compiled query involves no dispatch on segment, selector, or
+ * expression kinds. Function extensions are resolved when the query
+ * string is parsed, using the function extensions of the given options.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws TypeError if the query contains invalid expressions.
+ * @category Compile
+ */
+export function compileQuery(
+  query: Query | string,
+  options?: QueryContextOptions,
+): CompiledQuery {
+  const context = coerceQueryContext(options);
+
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  const segments = query.segments.map(compileSegment);
+
+  return (root: Node): NodeList => {
+    return runCompiledSegments(segments, root, root, context);
+  };
+}
+
+/**
+ * Compiles a JSONPath query expression into a reusable function that
+ * pairs each resulting node with the normalized path of its location
+ * in the root node, as `evaluateQueryLocated` does.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws TypeError if the query contains invalid expressions.
+ * @category Compile
+ */
+export function compileQueryLocated(
+  query: Query | string,
+  options?: QueryContextOptions,
+): CompiledLocatedQuery {
+  const context = coerceQueryContext(options);
+
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  const segments = query.segments.map(compileLocatedSegment);
+
+  return (root: Node): LocatedNodeList => {
+    const node = createLocatedNode(root, "$", []);
+    return runCompiledSegments(segments, root, node, context);
+  };
+}
+
+/**
+ * Evaluates compiled segments against the given root node,
+ * binding the query argument for the duration of the evaluation.
+ *
+ * @category Compile
+ * @internal
+ */
+function runCompiledSegments<T>(
+  segments: readonly ((nodes: readonly T[], context: QueryContext) => T[])[],
+  root: Node,
+  node: T,
+  context: QueryContext,
+): T[] {
+  let nodes = [node];
+
+  const queryArgument = context.queryArgument;
+  const queryResults = context.queryResults;
+  const queryNodeCount = context.queryNodeCount;
+  try {
+    context.queryArgument = root;
+    context.queryResults = new Map();
+    context.queryNodeCount = 0;
+    checkQueryInterrupt(context);
+    for (const segment of segments) {
+      nodes = segment(nodes, context);
+    }
+  } finally {
+    context.queryArgument = queryArgument;
+    context.queryResults = queryResults;
+    context.queryNodeCount = queryNodeCount;
+  }
+
+  return nodes;
+}
+
+/**
+ * Compiles a segment.
+ *
+ * @category Compile
+ */
+export function compileSegment(segment: Segment): CompiledSegment {
+  const kind = segment.kind;
+  switch (kind) {
+    case SegmentKind.Child:
+      return compileChildSegment(segment);
+    case SegmentKind.Descendant:
+      return compileDescendantSegment(segment);
+    default:
+      throw new TypeError("Invalid SegmentKind: " + kind);
+  }
+}
+
+/**
+ * Compiles a child segment.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileChildSegment(segment: ChildSegment): CompiledSegment {
+  const selectors = segment.selectors.map(compileSelector);
+
+  if (selectors.length === 1) {
+    const selector = selectors[0]!;
+    return (nodes: Readonly<NodeList>, context: QueryContext): NodeList => {
+      const output: NodeList = [];
+      for (const node of nodes) {
+        visitQueryNode(context);
+        selector(node, output, context);
+      }
+      return output;
+    };
+  }
+
+  return (nodes: Readonly<NodeList>, context: QueryContext): NodeList => {
+    const output: NodeList = [];
+    for (const node of nodes) {
+      visitQueryNode(context);
+      for (const selector of selectors) {
+        selector(node, output, context);
+      }
+    }
+    return output;
+  };
+}
+
+/**
+ * Compiles a descendant segment.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileDescendantSegment(
+  segment: DescendantSegment,
+): CompiledSegment {
+  const selectors = segment.selectors.map(compileSelector);
+
+  return (nodes: Readonly<NodeList>, context: QueryContext): NodeList => {
+    const output: NodeList = [];
+    if (selectors.length !== 0) {
+      for (const node of nodes) {
+        visitQueryNode(context);
+        for (const selector of selectors) {
+          selector(node, output, context);
+        }
+        for (const descendant of getDescendantNodes(node, context)) {
+          for (const selector of selectors) {
+            selector(descendant, output, context);
+          }
+        }
+      }
+    }
+    return output;
+  };
+}
+
+/**
+ * Compiles a selector.
+ *
+ * @category Compile
+ */
+export function compileSelector(selector: Selector): CompiledSelector {
+  const kind = selector.kind;
+  switch (kind) {
+    case SelectorKind.Name:
+      return compileNameSelector(selector);
+    case SelectorKind.Wildcard:
+      return compileWildcardSelector(selector);
+    case SelectorKind.Index:
+      return compileIndexSelector(selector);
+    case SelectorKind.Slice:
+      return compileSliceSelector(selector);
+    case SelectorKind.Filter:
+      return compileFilterSelector(selector);
+    default:
+      throw new TypeError("Invalid SelectorKind: " + kind);
+  }
+}
+
+/**
+ * Compiles a name selector.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileNameSelector(selector: NameSelector): CompiledSelector {
+  const name = selector.name;
+  return (node: Node, output: NodeList, context: QueryContext): void => {
+    const child = context.nodeAdapter.child(node, name);
+    if (child !== undefined) {
+      output.push(child);
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/**
+ * Compiles a wildcard selector.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileWildcardSelector(
+  selector: WildcardSelector,
+): CompiledSelector {
+  return (node: Node, output: NodeList, context: QueryContext): void => {
+    const children = context.nodeAdapter.children(node);
+    for (let i = 0; i < children.length; i += 1) {
+      output.push(children[i]);
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/**
+ * Compiles an index selector.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileIndexSelector(
+  selector: IndexSelector,
+): CompiledSelector {
+  const index = selector.index;
+
+  if (index >= 0) {
+    return (node: Node, output: NodeList, context: QueryContext): void => {
+      const adapter = context.nodeAdapter;
+      const child =
+        adapter.isArray(node) ? adapter.child(node, index) : undefined;
+      if (child !== undefined) {
+        output.push(child);
+        checkQueryOutput(context, output.length);
+      }
+    };
+  }
+
+  return (node: Node, output: NodeList, context: QueryContext): void => {
+    const adapter = context.nodeAdapter;
+    const offset = getArrayLength(node, adapter) + index;
+    const child =
+      offset >= 0 && adapter.isArray(node) ?
+        adapter.child(node, offset)
+      : undefined;
+    if (child !== undefined) {
+      output.push(child);
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/**
+ * Compiles a slice selector.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileSliceSelector(
+  selector: SliceSelector,
+): CompiledSelector {
+  const step = selector.step ?? 1;
+
+  if (step > 0) {
+    return (node: Node, output: NodeList, context: QueryContext): void => {
+      const adapter = context.nodeAdapter;
+      if (!adapter.isArray(node)) {
+        return;
+      }
+      const len = getArrayLength(node, adapter);
+      let start = selector.start ?? 0;
+      let end = selector.end ?? len;
+
+      start = start >= 0 ? start : len + start;
+      end = end >= 0 ? end : len + end;
+
+      const lower = Math.min(Math.max(start, 0), len);
+      const upper = Math.min(Math.max(end, 0), len);
+      for (let i = lower; i < upper; i += step) {
+        output.push(adapter.child(node, i));
+        checkQueryOutput(context, output.length);
+      }
+    };
+  } else if (step < 0) {
+    return (node: Node, output: NodeList, context: QueryContext): void => {
+      const adapter = context.nodeAdapter;
+      if (!adapter.isArray(node)) {
+        return;
+      }
+      const len = getArrayLength(node, adapter);
+      let start = selector.start ?? len - 1;
+      let end = selector.end ?? -len - 1;
+
+      start = start >= 0 ? start : len + start;
+      end = end >= 0 ? end : len + end;
+
+      const upper = Math.min(Math.max(start, -1), len - 1);
+      const lower = Math.min(Math.max(end, -1), len - 1);
+      for (let i = upper; i > lower; i += step) {
+        output.push(adapter.child(node, i));
+        checkQueryOutput(context, output.length);
+      }
+    };
+  }
+
+  return (): void => {};
+}
+
+/**
+ * Compiles a filter selector.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileFilterSelector(
+  selector: FilterSelector,
+): CompiledSelector {
+  const predicate = compileExpression(selector.expression);
+  return (node: Node, output: NodeList, context: QueryContext): void => {
+    for (const child of context.nodeAdapter.children(node)) {
+      visitQueryNode(context);
+      if (predicate(child, context)) {
+        output.push(child);
+        checkQueryOutput(context, output.length);
+      }
+    }
+  };
+}
+
+/**
+ * Compiles a segment that selects located nodes.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileLocatedSegment(segment: Segment): CompiledLocatedSegment {
+  const kind = segment.kind;
+  switch (kind) {
+    case SegmentKind.Child:
+      return compileLocatedChildSegment(segment);
+    case SegmentKind.Descendant:
+      return compileLocatedDescendantSegment(segment);
+    default:
+      throw new TypeError("Invalid SegmentKind: " + kind);
+  }
+}
+
+/** @internal */
+function compileLocatedChildSegment(
+  segment: ChildSegment,
+): CompiledLocatedSegment {
+  const selectors = segment.selectors.map(compileLocatedSelector);
+
+  return (
+    nodes: Readonly<LocatedNodeList>,
+    context: QueryContext,
+  ): LocatedNodeList => {
+    const output: LocatedNodeList = [];
+    for (const node of nodes) {
+      visitQueryNode(context);
+      for (const selector of selectors) {
+        selector(node, output, context);
+      }
+    }
+    return output;
+  };
+}
+
+/** @internal */
+function compileLocatedDescendantSegment(
+  segment: DescendantSegment,
+): CompiledLocatedSegment {
+  const selectors = segment.selectors.map(compileLocatedSelector);
+
+  return (
+    nodes: Readonly<LocatedNodeList>,
+    context: QueryContext,
+  ): LocatedNodeList => {
+    const output: LocatedNodeList = [];
+    if (selectors.length !== 0) {
+      for (const node of nodes) {
+        visitQueryNode(context);
+        for (const selector of selectors) {
+          selector(node, output, context);
+        }
+        for (const descendant of getLocatedDescendantNodes(node, context)) {
+          for (const selector of selectors) {
+            selector(descendant, output, context);
+          }
+        }
+      }
+    }
+    return output;
+  };
+}
+
+/**
+ * Compiles a selector that selects located nodes.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileLocatedSelector(selector: Selector): CompiledLocatedSelector {
+  const kind = selector.kind;
+  switch (kind) {
+    case SelectorKind.Name:
+      return compileLocatedNameSelector(selector);
+    case SelectorKind.Wildcard:
+      return compileLocatedWildcardSelector(selector);
+    case SelectorKind.Index:
+      return compileLocatedIndexSelector(selector);
+    case SelectorKind.Slice:
+      return compileLocatedSliceSelector(selector);
+    case SelectorKind.Filter:
+      return compileLocatedFilterSelector(selector);
+    default:
+      throw new TypeError("Invalid SelectorKind: " + kind);
+  }
+}
+
+/** @internal */
+function compileLocatedNameSelector(
+  selector: NameSelector,
+): CompiledLocatedSelector {
+  const name = selector.name;
+  return (
+    node: LocatedNode,
+    output: LocatedNodeList,
+    context: QueryContext,
+  ): void => {
+    const child = context.nodeAdapter.child(node.value, name);
+    if (child !== undefined) {
+      output.push(locateChildNode(node, name, child));
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/** @internal */
+function compileLocatedWildcardSelector(
+  selector: WildcardSelector,
+): CompiledLocatedSelector {
+  return (
+    node: LocatedNode,
+    output: LocatedNodeList,
+    context: QueryContext,
+  ): void => {
+    const adapter = context.nodeAdapter;
+    const children = adapter.children(node.value);
+    const names =
+      adapter.isObject(node.value) ? adapter.keys(node.value) : undefined;
+    for (let i = 0; i < children.length; i += 1) {
+      output.push(locateChildNode(node, names?.[i] ?? i, children[i]));
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/** @internal */
+function compileLocatedIndexSelector(
+  selector: IndexSelector,
+): CompiledLocatedSelector {
+  const index = selector.index;
+  return (
+    node: LocatedNode,
+    output: LocatedNodeList,
+    context: QueryContext,
+  ): void => {
+    const adapter = context.nodeAdapter;
+    if (!adapter.isArray(node.value)) {
+      return;
+    }
+    const offset =
+      index >= 0 ? index : getArrayLength(node.value, adapter) + index;
+    const child = offset >= 0 ? adapter.child(node.value, offset) : undefined;
+    if (child !== undefined) {
+      output.push(locateChildNode(node, offset, child));
+      checkQueryOutput(context, output.length);
+    }
+  };
+}
+
+/** @internal */
+function compileLocatedSliceSelector(
+  selector: SliceSelector,
+): CompiledLocatedSelector {
+  const step = selector.step ?? 1;
+  if (step === 0) {
+    return (): void => {};
+  }
+
+  return (
+    node: LocatedNode,
+    output: LocatedNodeList,
+    context: QueryContext,
+  ): void => {
+    const adapter = context.nodeAdapter;
+    const value = node.value;
+    if (!adapter.isArray(value)) {
+      return;
+    }
+    const len = getArrayLength(value, adapter);
+
+    if (step > 0) {
+      let start = selector.start ?? 0;
+      let end = selector.end ?? len;
+
+      start = start >= 0 ? start : len + start;
+      end = end >= 0 ? end : len + end;
+
+      const lower = Math.min(Math.max(start, 0), len);
+      const upper = Math.min(Math.max(end, 0), len);
+      for (let i = lower; i < upper; i += step) {
+        output.push(locateChildNode(node, i, adapter.child(value, i)));
+        checkQueryOutput(context, output.length);
+      }
+    } else {
+      let start = selector.start ?? len - 1;
+      let end = selector.end ?? -len - 1;
+
+      start = start >= 0 ? start : len + start;
+      end = end >= 0 ? end : len + end;
+
+      const upper = Math.min(Math.max(start, -1), len - 1);
+      const lower = Math.min(Math.max(end, -1), len - 1);
+      for (let i = upper; i > lower; i += step) {
+        output.push(locateChildNode(node, i, adapter.child(value, i)));
+        checkQueryOutput(context, output.length);
+      }
+    }
+  };
+}
+
+/** @internal */
+function compileLocatedFilterSelector(
+  selector: FilterSelector,
+): CompiledLocatedSelector {
+  const predicate = compileExpression(selector.expression);
+  return (
+    node: LocatedNode,
+    output: LocatedNodeList,
+    context: QueryContext,
+  ): void => {
+    const adapter = context.nodeAdapter;
+    const children = adapter.children(node.value);
+    const names =
+      adapter.isObject(node.value) ? adapter.keys(node.value) : undefined;
+    for (let i = 0; i < children.length; i += 1) {
+      const child = children[i];
+      visitQueryNode(context);
+      if (predicate(child, context)) {
+        output.push(locateChildNode(node, names?.[i] ?? i, child));
+        checkQueryOutput(context, output.length);
+      }
+    }
+  };
+}
+
+/**
+ * Compiles a logical expression into a predicate.
+ *
+ * @category Compile
+ */
+export function compileExpression(expression: Expression): CompiledExpression {
+  const kind = expression.kind;
+  switch (kind) {
+    case ExpressionKind.Or:
+      return compileOrExpression(expression);
+    case ExpressionKind.And:
+      return compileAndExpression(expression);
+    case ExpressionKind.Comparison:
+      return compileComparisonExpression(expression);
+    case ExpressionKind.Not:
+      return compileNotExpression(expression);
+    case ExpressionKind.Query:
+      return compileQueryTestExpression(expression);
+    case ExpressionKind.Literal:
+      throw new TypeError("Invalid literal expression");
+    case ExpressionKind.Function:
+      return compileFunctionTestExpression(expression);
+    default:
+      throw new TypeError("Invalid ExpressionKind: " + kind);
+  }
+}
+
+/**
+ * Compiles an OR expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileOrExpression(
+  expression: OrExpression,
+): CompiledExpression {
+  const operands = expression.operands.map(compileExpression);
+  return (node: Node, context: QueryContext): boolean => {
+    for (const operand of operands) {
+      if (operand(node, context)) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Compiles an AND expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileAndExpression(
+  expression: AndExpression,
+): CompiledExpression {
+  const operands = expression.operands.map(compileExpression);
+  return (node: Node, context: QueryContext): boolean => {
+    for (const operand of operands) {
+      if (!operand(node, context)) {
+        return false;
+      }
+    }
+    return true;
+  };
+}
+
+/**
+ * Compiles a comparison expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileComparisonExpression(
+  expression: ComparisonExpression,
+): CompiledExpression {
+  const lhs = compileComparableExpression(expression.lhs);
+  const rhs = compileComparableExpression(expression.rhs);
+
+  const operator = expression.operator;
+  switch (operator) {
+    case ComparisonOperator.Equal:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        if (x.length === 0 || y.length === 0) {
+          return x.length === y.length;
+        }
+        return (
+          x.length === 1 &&
+          y.length === 1 &&
+          equalNodes(x[0], y[0], context.nodeAdapter)
+        );
+      };
+    case ComparisonOperator.NotEqual:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        if (x.length === 0 || y.length === 0) {
+          return x.length !== y.length;
+        }
+        return (
+          x.length === 1 &&
+          y.length === 1 &&
+          !equalNodes(x[0], y[0], context.nodeAdapter)
+        );
+      };
+    case ComparisonOperator.LessThan:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        return (
+          x.length === 1 && y.length === 1 && (compare(x[0], y[0]) ?? 1) < 0
+        );
+      };
+    case ComparisonOperator.LessThanOrEqual:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        if (x.length === 0 || y.length === 0) {
+          return x.length === y.length;
+        }
+        return (
+          x.length === 1 && y.length === 1 && (compare(x[0], y[0]) ?? 1) <= 0
+        );
+      };
+    case ComparisonOperator.GreaterThan:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        return (
+          x.length === 1 && y.length === 1 && (compare(x[0], y[0]) ?? -1) > 0
+        );
+      };
+    case ComparisonOperator.GreaterThanOrEqual:
+      return (node: Node, context: QueryContext): boolean => {
+        const x = lhs(node, context);
+        const y = rhs(node, context);
+        if (x.length === 0 || y.length === 0) {
+          return x.length === y.length;
+        }
+        return (
+          x.length === 1 && y.length === 1 && (compare(x[0], y[0]) ?? -1) >= 0
+        );
+      };
+    default:
+      throw new TypeError("Invalid ComparisonOperator: " + operator);
+  }
+}
+
+/**
+ * Compiles a NOT expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileNotExpression(
+  expression: NotExpression,
+): CompiledExpression {
+  const operand = compileExpression(expression.operand);
+  return (node: Node, context: QueryContext): boolean => {
+    return !operand(node, context);
+  };
+}
+
+/**
+ * Compiles a query test expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileQueryTestExpression(
+  expression: QueryExpression,
+): CompiledExpression {
+  const query = compileQueryExpression(expression);
+  return (node: Node, context: QueryContext): boolean => {
+    return query(node, context).length !== 0;
+  };
+}
+
+/**
+ * Compiles a function test expression.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileFunctionTestExpression(
+  expression: FunctionExpression,
+): CompiledExpression {
+  const func = expression.func;
+  const regexp = expression.regexp;
+  const args = compileFunctionArguments(expression);
+
+  const resultType = func.resultType;
+  switch (resultType) {
+    case DeclaredType.Value:
+      throw new TypeError(
+        "ValueType function not supported in test expression",
+      );
+    case DeclaredType.Logical:
+      return (node: Node, context: QueryContext): boolean => {
+        return syncFunctionResult(
+          func,
+          evaluateLogicalFunction(func, regexp, args(node, context), context),
+        );
+      };
+    case DeclaredType.Nodes:
+      return (node: Node, context: QueryContext): boolean => {
+        return (
+          syncFunctionResult(func, func.evaluate(args(node, context), context))
+            .length !== 0
+        );
+      };
+    default:
+      throw new TypeError("Invalid DeclaredType: " + resultType);
+  }
+}
+
+/**
+ * Compiles a comparable expression.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileComparableExpression(
+  expression: ComparableExpression,
+): CompiledComparable {
+  const kind = expression.kind;
+  switch (kind) {
+    case ExpressionKind.Literal:
+      return compileLiteralExpression(expression);
+    case ExpressionKind.Query:
+      return compileQueryExpression(expression);
+    case ExpressionKind.Function:
+      return compileFunctionExpression(expression);
+    default:
+      throw new TypeError("Invalid ComparableExpressionKind: " + kind);
+  }
+}
+
+/**
+ * Compiles a literal expression.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileLiteralExpression(
+  expression: LiteralExpression,
+): CompiledComparable {
+  const value = expression.value;
+  return (): NodeList => [value];
+}
+
+/**
+ * Compiles a query expression. Absolute queries depend only on the
+ * query argument, so they're evaluated at most once per query run.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileQueryExpression(
+  expression: QueryExpression,
+): CompiledComparable {
+  const segments = expression.segments.map(compileSegment);
+
+  const evaluate = (node: Node, context: QueryContext): NodeList => {
+    let nodes = [node];
+    for (const segment of segments) {
+      nodes = segment(nodes, context);
+    }
+    return nodes;
+  };
+
+  const identifier = expression.identifier;
+  if (identifier === "@") {
+    return evaluate;
+  } else if (identifier === "$") {
+    return (node: Node, context: QueryContext): NodeList => {
+      let nodes = context.queryResults?.get(expression);
+      if (nodes === undefined) {
+        nodes = evaluate(context.queryArgument, context);
+        context.queryResults?.set(expression, nodes);
+      }
+      return nodes;
+    };
+  } else {
+    throw new TypeError("Unsupported node identifier: " + identifier);
+  }
+}
+
+/**
+ * Compiles a function expression.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileFunctionExpression(
+  expression: FunctionExpression,
+): CompiledComparable {
+  const func = expression.func;
+  const args = compileFunctionArguments(expression);
+
+  const resultType = func.resultType;
+  switch (resultType) {
+    case DeclaredType.Value:
+      return (node: Node, context: QueryContext): NodeList => {
+        const value = syncFunctionResult(
+          func,
+          func.evaluate(args(node, context), context),
+        );
+        return value !== undefined ? [value] : [];
+      };
+    case DeclaredType.Logical:
+      throw new TypeError(
+        "LogicalType function not supported in comparison expression",
+      );
+    case DeclaredType.Nodes:
+      throw new TypeError(
+        "NodesType function not supported in comparison expression",
+      );
+    default:
+      throw new TypeError("Invalid DeclaredType: " + resultType);
+  }
+}
+
+/**
+ * Compiles the arguments of a function expression.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileFunctionArguments(
+  expression: FunctionExpression,
+): (node: Node, context: QueryContext) => ExpressionType[] {
+  const parameterTypes = expression.func.parameterTypes;
+  if (expression.args.length !== parameterTypes.length) {
+    throw new TypeError(
+      "Expected " +
+        parameterTypes.length +
+        " arguments for function " +
+        expression.func.name +
+        ", but received " +
+        expression.args.length +
+        " arguments",
+    );
+  }
+
+  const args: CompiledArgument[] = [];
+  for (let i = 0; i < parameterTypes.length; i += 1) {
+    args.push(compileFunctionArgument(parameterTypes[i]!, expression.args[i]!));
+  }
+
+  return (node: Node, context: QueryContext): ExpressionType[] => {
+    const values: ExpressionType[] = [];
+    for (const arg of args) {
+      values.push(arg(node, context));
+    }
+    return values;
+  };
+}
+
+/**
+ * Compiles a function argument of the given parameter type.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileFunctionArgument(
+  parameterType: DeclaredType,
+  expression: Expression,
+): CompiledArgument {
+  switch (parameterType) {
+    case DeclaredType.Value:
+      return compileValueFunctionArgument(expression);
+    case DeclaredType.Logical:
+      return compileLogicalFunctionArgument(expression);
+    case DeclaredType.Nodes:
+      return compileNodesFunctionArgument(expression);
+    default:
+      throw new TypeError("Invalid DeclaredType: " + parameterType);
+  }
+}
+
+/**
+ * Compiles a ValueType function argument.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileValueFunctionArgument(
+  expression: Expression,
+): CompiledArgument {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    const resultType = func.resultType;
+    switch (resultType) {
+      case DeclaredType.Value: {
+        const args = compileFunctionArguments(expression);
+        return (node: Node, context: QueryContext): ExpressionType => {
+          return syncFunctionResult(
+            func,
+            func.evaluate(args(node, context), context),
+          );
+        };
+      }
+      case DeclaredType.Logical:
+        throw new TypeError(
+          "LogicalType function not supported in ValueType argument position",
+        );
+      case DeclaredType.Nodes:
+        throw new TypeError(
+          "NodesType function not supported in ValueType argument position",
+        );
+      default:
+        throw new TypeError("Invalid DeclaredType: " + resultType);
+    }
+  }
+
+  if (expression.kind === ExpressionKind.Literal) {
+    const value = expression.value;
+    return (): ExpressionType => value;
+  }
+
+  if (expression.kind === ExpressionKind.Query) {
+    const query = compileQueryExpression(expression);
+    return (node: Node, context: QueryContext): ExpressionType => {
+      return singularValue(query(node, context));
+    };
+  }
+
+  throw new TypeError(
+    "ValueType function argument must be a ValueType function expression, a literal expression, or a singular query expression",
+  );
+}
+
+/**
+ * Compiles a LogicalType function argument.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileLogicalFunctionArgument(
+  expression: Expression,
+): CompiledArgument {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    const resultType = func.resultType;
+    switch (resultType) {
+      case DeclaredType.Value:
+        throw new TypeError(
+          "ValueType function not supported in LogicalType argument position",
+        );
+      case DeclaredType.Logical:
+      case DeclaredType.Nodes:
+        return compileFunctionTestExpression(expression);
+      default:
+        throw new TypeError("Invalid DeclaredType: " + resultType);
+    }
+  }
+
+  return compileExpression(expression);
+}
+
+/**
+ * Compiles a NodesType function argument.
+ *
+ * @category Compile
+ * @internal
+ */
+function compileNodesFunctionArgument(
+  expression: Expression,
+): CompiledArgument {
+  if (expression.kind === ExpressionKind.Function) {
+    const func = expression.func;
+    const resultType = func.resultType;
+    switch (resultType) {
+      case DeclaredType.Value:
+        throw new TypeError(
+          "ValueType function not supported in NodesType argument position",
+        );
+      case DeclaredType.Logical:
+        throw new TypeError(
+          "LogicalType function not supported in NodesType argument position",
+        );
+      case DeclaredType.Nodes: {
+        const args = compileFunctionArguments(expression);
+        return (node: Node, context: QueryContext): ExpressionType => {
+          return syncFunctionResult(
+            func,
+            func.evaluate(args(node, context), context),
+          );
+        };
+      }
+      default:
+        throw new TypeError("Invalid DeclaredType: " + resultType);
+    }
+  }
+
+  if (expression.kind === ExpressionKind.Query) {
+    return compileQueryExpression(expression);
+  }
+
+  throw new TypeError(
+    "NodesType function argument must be a NodesType function expression or a query expression",
+  );
+}
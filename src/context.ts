@@ -1,7 +1,16 @@
-import type { Context, ContextOptions } from "tool-json";
+import type { NodeList, Context, ContextOptions } from "tool-json";
 import { isArray, initContext, createContext } from "tool-json";
 import type { FunctionExtension } from "./function.ts";
 import { intrinsicFunctions } from "./function.ts";
+import type { QueryExpression } from "./expression.ts";
+import type { QueryCache } from "./cache.ts";
+import type { RegexpCache } from "./iregexp.ts";
+import { defaultRegexpCache } from "./iregexp.ts";
+import type { QueryLimits, ParseLimits } from "./limit.ts";
+import type { CycleMode } from "./cycle.ts";
+import type { NodeAdapter } from "./adapter.ts";
+import { jsonNodeAdapter } from "./adapter.ts";
+import type { AsyncNodeAdapter } from "./async.ts";
 
 /**
  * The lexical scope of a JSONPath query expression.
@@ -29,15 +38,76 @@ export interface QueryContext extends Context {
     | { readonly [name: string]: FunctionExtension }
     | undefined;
 
+  /**
+   * The cache of parsed JSONPath query strings.
+   */
+  queryCache: QueryCache | undefined;
+
+  /**
+   * Whether to run regular expressions on a linear-time matcher.
+   */
+  safeRegexps: boolean | undefined;
+
+  /**
+   * The cache of compiled regular expressions.
+   */
+  regexpCache: RegexpCache;
+
+  /**
+   * The structural view of the nodes of the query argument.
+   */
+  nodeAdapter: NodeAdapter;
+
+  /**
+   * The asynchronous view of the nodes of the query argument.
+   */
+  asyncNodeAdapter: AsyncNodeAdapter | undefined;
+
   /**
    * The root node for JSONPath query evaluation.
    */
   queryArgument: unknown | undefined;
 
+  /**
+   * Resource limits for JSONPath query evaluation.
+   */
+  queryLimits: QueryLimits | undefined;
+
+  /**
+   * The number of nodes visited during the current query evaluation.
+   */
+  queryNodeCount: number;
+
+  /**
+   * How descendant segments handle cyclic references.
+   */
+  cycleMode: CycleMode | undefined;
+
+  /**
+   * The memoized results of absolute (`$`-rooted) query expressions
+   * evaluated during the current query evaluation.
+   */
+  queryResults: Map<QueryExpression, NodeList> | undefined;
+
   /**
    * The immediate expression scope of the JSONPath query parser.
    */
   queryScope: QueryScope | undefined;
+
+  /**
+   * Limits on the JSONPath query strings accepted by the parser.
+   */
+  parseLimits: ParseLimits | undefined;
+
+  /**
+   * Whether the JSONPath query parser records source spans.
+   */
+  sourceSpans: boolean | undefined;
+
+  /**
+   * The current expression nesting depth of the JSONPath query parser.
+   */
+  parseDepth: number;
 }
 
 /**
@@ -54,6 +124,66 @@ export interface QueryContextOptions extends ContextOptions {
     | { readonly [name: string]: FunctionExtension }
     | undefined;
 
+  /**
+   * A cache of parsed JSONPath query strings to share across evaluations.
+   * Queries parsed with `parseLimits` or `safeRegexps` bypass the cache,
+   * so that cached queries never escape their checks.
+   */
+  queryCache?: QueryCache | undefined;
+
+  /**
+   * Whether the `match()` and `search()` functions should run regular
+   * expressions on a linear-time matcher, which can't be driven into
+   * catastrophic backtracking by untrusted patterns or inputs.
+   */
+  safeRegexps?: boolean | undefined;
+
+  /**
+   * A cache of the regular expressions compiled by the `match()` and
+   * `search()` functions from patterns taken from the queried data.
+   * Literal patterns are compiled into the query when it's parsed.
+   * Defaults to `defaultRegexpCache`.
+   */
+  regexpCache?: RegexpCache | undefined;
+
+  /**
+   * The structural view of the nodes of the query argument, which lets
+   * queries run over values that aren't plain JSON. Defaults to
+   * `jsonNodeAdapter`.
+   */
+  nodeAdapter?: NodeAdapter | undefined;
+
+  /**
+   * The asynchronous view of the nodes of the query argument, used by
+   * `evaluateQueryAsync`. Defaults to an adapter that awaits the children
+   * returned by the node adapter.
+   */
+  asyncNodeAdapter?: AsyncNodeAdapter | undefined;
+
+  /**
+   * Resource limits for JSONPath query evaluation.
+   */
+  queryLimits?: QueryLimits | undefined;
+
+  /**
+   * How descendant segments handle cyclic references in the query
+   * argument. By default, descendant segments don't check for cycles,
+   * and never terminate on cyclic object graphs.
+   */
+  cycleMode?: CycleMode | undefined;
+
+  /**
+   * Limits on the JSONPath query strings accepted by the parser.
+   */
+  parseLimits?: ParseLimits | undefined;
+
+  /**
+   * Whether the parser should record the `span` of each parsed syntax
+   * node, giving the `start` and `end` offsets of its characters in the
+   * input. Queries parsed with source spans bypass the query cache.
+   */
+  sourceSpans?: boolean | undefined;
+
   /**
    * The root node for JSONPath query evaluation.
    */
@@ -73,12 +203,48 @@ export function initQueryContext(
   if (!("functionExtensions" in context)) {
     context.functionExtensions = intrinsicFunctions;
   }
+  if (!("queryCache" in context)) {
+    context.queryCache = undefined;
+  }
+  if (!("safeRegexps" in context)) {
+    context.safeRegexps = undefined;
+  }
+  if (!("regexpCache" in context)) {
+    context.regexpCache = defaultRegexpCache;
+  }
+  if (!("nodeAdapter" in context)) {
+    context.nodeAdapter = jsonNodeAdapter;
+  }
+  if (!("asyncNodeAdapter" in context)) {
+    context.asyncNodeAdapter = undefined;
+  }
   if (!("queryArgument" in context)) {
     context.queryArgument = undefined;
   }
+  if (!("queryLimits" in context)) {
+    context.queryLimits = undefined;
+  }
+  if (!("queryNodeCount" in context)) {
+    context.queryNodeCount = 0;
+  }
+  if (!("cycleMode" in context)) {
+    context.cycleMode = undefined;
+  }
+  if (!("queryResults" in context)) {
+    context.queryResults = undefined;
+  }
   if (!("queryScope" in context)) {
     context.queryScope = undefined;
   }
+  if (!("parseLimits" in context)) {
+    context.parseLimits = undefined;
+  }
+  if (!("parseDepth" in context)) {
+    context.parseDepth = 0;
+  }
+  if (!("sourceSpans" in context)) {
+    context.sourceSpans = undefined;
+  }
 
   // Configure function extensions.
   if (options?.functionExtensions !== undefined) {
@@ -100,6 +266,49 @@ export function initQueryContext(
     }
   }
 
+  // Configure the query cache.
+  if (options?.queryCache !== undefined) {
+    context.queryCache = options.queryCache;
+  }
+
+  // Configure the regular expression engine.
+  if (options?.safeRegexps !== undefined) {
+    context.safeRegexps = options.safeRegexps;
+  }
+  if (options?.regexpCache !== undefined) {
+    context.regexpCache = options.regexpCache;
+  }
+
+  // Configure the node adapter.
+  if (options?.nodeAdapter !== undefined) {
+    context.nodeAdapter = options.nodeAdapter;
+  }
+
+  // Configure the asynchronous node adapter.
+  if (options?.asyncNodeAdapter !== undefined) {
+    context.asyncNodeAdapter = options.asyncNodeAdapter;
+  }
+
+  // Configure evaluation limits.
+  if (options?.queryLimits !== undefined) {
+    context.queryLimits = options.queryLimits;
+  }
+
+  // Configure cycle handling.
+  if (options?.cycleMode !== undefined) {
+    context.cycleMode = options.cycleMode;
+  }
+
+  // Configure parse limits.
+  if (options?.parseLimits !== undefined) {
+    context.parseLimits = options.parseLimits;
+  }
+
+  // Configure source spans.
+  if (options?.sourceSpans !== undefined) {
+    context.sourceSpans = options.sourceSpans;
+  }
+
   // Configure the query argument.
   if (options?.queryArgument !== undefined) {
     context.queryArgument = options.queryArgument;
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  QueryError,
+  CycleMode,
+  evaluateQuery,
+  evaluateQueryLocated,
+  compileQuery,
+  iterateQuery,
+} from "tool-query";
+
+void suite("Cyclic object graphs", () => {
+  const createGraph = () => {
+    const root: Record<string, unknown> = { name: "root" };
+    const child: Record<string, unknown> = { name: "child", parent: root };
+    root.children = [child];
+    return { root, child };
+  };
+
+  const isCycleError = (message: string) => (error: unknown) =>
+    error instanceof QueryError &&
+    error instanceof Error &&
+    error.message === message;
+
+  void test("should skip revisits of ancestors", () => {
+    const { root, child } = createGraph();
+    const options = { cycleMode: CycleMode.Skip };
+    const names = ["root", "child"];
+    assert.deepEqual(evaluateQuery("$..name", root, options), names);
+    assert.deepEqual(compileQuery("$..name", options)(root), names);
+    assert.deepEqual([...iterateQuery("$..name", root, options)], names);
+    assert.deepEqual(evaluateQuery("$..parent", root, options), [root]);
+    assert.deepEqual(evaluateQuery("$..*", root, options), [
+      "root",
+      [child],
+      child,
+      "child",
+      root,
+    ]);
+  });
+
+  void test("should locate skipped revisits", () => {
+    const { root } = createGraph();
+    const options = { cycleMode: CycleMode.Skip };
+    assert.deepEqual(
+      evaluateQueryLocated("$..parent", root, options).map((node) => node.path),
+      ["$['children'][0]['parent']"],
+    );
+  });
+
+  void test("should not treat shared nodes as cycles", () => {
+    const shared = { x: 1 };
+    const root = { a: shared, b: shared };
+    const options = { cycleMode: CycleMode.Throw };
+    assert.deepEqual(evaluateQuery("$..x", root, options), [1, 1]);
+    assert.deepEqual([...iterateQuery("$..x", root, options)], [1, 1]);
+  });
+
+  void test("should throw with the path of the cycle", () => {
+    const { root } = createGraph();
+    const options = { cycleMode: CycleMode.Throw };
+    const message =
+      "Cyclic reference: $['children'][0]['parent'] refers back to $";
+    assert.throws(
+      () => evaluateQuery("$..name", root, options),
+      isCycleError(message),
+    );
+    assert.throws(
+      () => evaluateQueryLocated("$..name", root, options),
+      isCycleError(message),
+    );
+    assert.throws(
+      () => compileQuery("$..name", options)(root),
+      isCycleError(message),
+    );
+    assert.throws(
+      () => [...iterateQuery("$..name", root, options)],
+      isCycleError(message),
+    );
+  });
+
+  void test("should report cycles by the paths of segment inputs", () => {
+    const { root } = createGraph();
+    const options = { cycleMode: CycleMode.Throw };
+    assert.throws(
+      () => evaluateQuery("$.children[0]..name", root, options),
+      isCycleError(
+        "Cyclic reference: $['children'][0]['parent']['children'][0] refers back to $['children'][0]",
+      ),
+    );
+  });
+
+  void test("should report cycles relative to untracked segment inputs", () => {
+    const { root } = createGraph();
+    const options = { cycleMode: CycleMode.Throw };
+    assert.throws(
+      () => compileQuery("$.children[0]..name", options)(root),
+      isCycleError(
+        "Cyclic reference: @['parent']['children'][0] refers back to @",
+      ),
+    );
+  });
+});
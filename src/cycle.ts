@@ -0,0 +1,78 @@
+import type { Node } from "tool-json";
+import { isArray, isObject } from "tool-json";
+import { QueryErrorCode, QueryError } from "./error.ts";
+import type { QueryContext } from "./context.ts";
+
+/**
+ * How descendant segments handle cyclic references in the query argument,
+ * such as back-references in an in-memory object graph.
+ *
+ * @category Cycle
+ */
+export type CycleMode = (typeof CycleMode)[keyof typeof CycleMode];
+
+/**
+ * @category Cycle
+ */
+export const CycleMode = {
+  /**
+   * Skip over nodes that refer back to one of their ancestors, so that
+   * each container is traversed at most once along any path.
+   */
+  Skip: 1,
+
+  /**
+   * Throw a `QueryError` describing the path of the cycle.
+   */
+  Throw: 2,
+} as const;
+
+/**
+ * Returns the normalized path from which descendant traversal of a node
+ * whose location isn't tracked reports cyclic references: `$` if the node
+ * is the query argument itself, or `@` if it's any other node.
+ *
+ * @category Cycle
+ * @internal
+ */
+export function getQueryNodePath(context: QueryContext, node: Node): string {
+  return node === context.queryArgument ? "$" : "@";
+}
+
+/**
+ * Records that descendant traversal is entering the given node, whose
+ * location is `path`, and returns `true` if the node should be traversed.
+ * Returns `false` if the node is already one of the containers in
+ * `ancestors`, which maps each container on the current traversal path
+ * to its location. The caller must remove the node from
+ * `ancestors` once its descendants have been traversed.
+ *
+ * @throws QueryError if the node closes a cycle and the cycle mode
+ * of the context is `CycleMode.Throw`.
+ * @category Cycle
+ * @internal
+ */
+export function enterQueryNode(
+  context: QueryContext,
+  node: Node,
+  path: string,
+  ancestors: Map<Node, string>,
+): boolean {
+  if (!isArray(node) && !isObject(node)) {
+    return true;
+  }
+
+  const ancestorPath = ancestors.get(node);
+  if (ancestorPath !== undefined) {
+    if (context.cycleMode === CycleMode.Throw) {
+      throw new QueryError(
+        "Cyclic reference: " + path + " refers back to " + ancestorPath,
+        { code: QueryErrorCode.CyclicReference },
+      );
+    }
+    return false;
+  }
+
+  ancestors.set(node, path);
+  return true;
+}
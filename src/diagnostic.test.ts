@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  DiagnosticSeverity,
+  QueryErrorCode,
+  formatQuery,
+  parseQuery,
+  parseQueryWithDiagnostics,
+} from "tool-query";
+
+void suite("Query diagnostics", () => {
+  const summarize = (input: string) => {
+    const { query, diagnostics } = parseQueryWithDiagnostics(input);
+    return {
+      query: formatQuery(query),
+      diagnostics: diagnostics.map(
+        ({ message, span }) => `${span.start}-${span.end}: ${message}`,
+      ),
+    };
+  };
+
+  void test("should report every malformed selector at once", () => {
+    const { diagnostics } = parseQueryWithDiagnostics("$.a[?@.b == ][0:x]");
+    assert.deepEqual(diagnostics, [
+      {
+        message: "Expected comparable expression",
+        severity: DiagnosticSeverity.Error,
+        span: { start: 12, end: 13 },
+        code: QueryErrorCode.ExpectedExpression,
+      },
+      {
+        message: "Expected comma",
+        severity: DiagnosticSeverity.Error,
+        span: { start: 16, end: 17 },
+        code: QueryErrorCode.ExpectedComma,
+      },
+    ]);
+    assert.deepEqual(summarize("$.a[?@.b == ][0:x]").query, "$.a");
+  });
+
+  void test("should keep the well-formed parts of the query", () => {
+    assert.deepEqual(summarize("$..[0, 'x' y, 2].b"), {
+      query: "$..[0, 2].b",
+      diagnostics: ["11-12: Expected comma"],
+    });
+    assert.deepEqual(summarize("$[?(@.a == 1], 'b']"), {
+      query: "$.b",
+      diagnostics: ["12-13: Expected close parenthesis"],
+    });
+    assert.deepEqual(summarize("$.1.b"), {
+      query: "$.b",
+      diagnostics: ["2-3: Expected dot segment"],
+    });
+  });
+
+  void test("should recover from a missing root identifier", () => {
+    assert.deepEqual(summarize("a.b"), {
+      query: "$.b",
+      diagnostics: ['0-1: Expected root identifier ("$")'],
+    });
+  });
+
+  void test("should report unterminated and trailing input", () => {
+    assert.deepEqual(summarize("$.a[1"), {
+      query: "$.a[1]",
+      diagnostics: ["5-5: Expected close bracket"],
+    });
+    assert.deepEqual(summarize("$.a x"), {
+      query: "$.a",
+      diagnostics: ["4-5: Invalid JSONPath query"],
+    });
+  });
+
+  void test("should parse valid queries without diagnostics", () => {
+    for (const input of [
+      "$",
+      "$.a[0, 'b']..c",
+      "$[?@.a > 1 && match(@.b, 'x')]",
+    ]) {
+      const { query, diagnostics } = parseQueryWithDiagnostics(input);
+      assert.deepEqual(diagnostics, []);
+      assert.deepEqual(query, parseQuery(input));
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import type { QueryErrorCode } from "./error.ts";
+import type { Query } from "./query.ts";
+import type { SourceSpan } from "./span.ts";
+
+/**
+ * The severity of a query diagnostic. Values match the diagnostic
+ * severities of the Language Server Protocol.
+ *
+ * @category Diagnostic
+ */
+export type DiagnosticSeverity =
+  (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+
+/**
+ * @category Diagnostic
+ */
+export const DiagnosticSeverity = {
+  /**
+   * A problem that makes the query invalid.
+   */
+  Error: 1,
+
+  /**
+   * A likely mistake that doesn't make the query invalid.
+   */
+  Warning: 2,
+
+  /**
+   * Information about the query.
+   */
+  Information: 3,
+
+  /**
+   * A suggestion for improving the query.
+   */
+  Hint: 4,
+} as const;
+
+/**
+ * A problem found in a JSONPath query string.
+ *
+ * @category Diagnostic
+ */
+export interface QueryDiagnostic {
+  /**
+   * A description of the problem.
+   */
+  readonly message: string;
+
+  /**
+   * The severity of the problem.
+   */
+  readonly severity: DiagnosticSeverity;
+
+  /**
+   * The characters of the input to which the problem applies.
+   */
+  readonly span: SourceSpan;
+
+  /**
+   * The kind of problem, if the diagnostic describes a query error.
+   */
+  readonly code?: QueryErrorCode | undefined;
+}
+
+/**
+ * Creates a query diagnostic.
+ *
+ * @category Diagnostic
+ */
+export function createQueryDiagnostic(
+  message: string,
+  severity: DiagnosticSeverity,
+  span: SourceSpan,
+  code?: QueryErrorCode,
+): QueryDiagnostic {
+  return code !== undefined ?
+      { message, severity, span, code }
+    : { message, severity, span };
+}
+
+/**
+ * The result of parsing a JSONPath query string with diagnostics.
+ *
+ * @category Diagnostic
+ */
+export interface QueryParseResult {
+  /**
+   * The query parsed from the input, omitting the selectors and
+   * segments that couldn't be parsed.
+   */
+  readonly query: Query;
+
+  /**
+   * The problems found in the input, in the order of their spans.
+   */
+  readonly diagnostics: readonly QueryDiagnostic[];
+}
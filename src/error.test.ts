@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  CycleMode,
+  QueryError,
+  QueryErrorCode,
+  QueryLimitError,
+  evaluateQuery,
+  parseQuery,
+  parseQueryWithDiagnostics,
+} from "tool-query";
+
+void suite("Query error codes", () => {
+  const parseError = (input: string): QueryError => {
+    try {
+      parseQuery(input);
+    } catch (error) {
+      assert.ok(error instanceof QueryError);
+      return error;
+    }
+    assert.fail("Expected " + JSON.stringify(input) + " to be invalid");
+  };
+
+  void test("should identify syntax errors", () => {
+    assert.equal(parseError("a.b").code, QueryErrorCode.ExpectedRootIdentifier);
+    assert.equal(parseError("$.1").code, QueryErrorCode.ExpectedSegment);
+    assert.equal(parseError("$[0 1]").code, QueryErrorCode.ExpectedComma);
+    assert.equal(
+      parseError("$['a\\q']").code,
+      QueryErrorCode.InvalidEscapeSequence,
+    );
+    assert.equal(
+      parseError("$[?@.a == ]").code,
+      QueryErrorCode.ExpectedExpression,
+    );
+    assert.equal(
+      parseError("$[?(@.a == 1]").code,
+      QueryErrorCode.ExpectedCloseParenthesis,
+    );
+  });
+
+  void test("should describe unknown functions", () => {
+    const error = parseError("$[?blt(1)]");
+    assert.equal(error.code, QueryErrorCode.UnknownFunction);
+    assert.deepEqual(error.details, { functionName: "blt" });
+  });
+
+  void test("should describe argument count mismatches", () => {
+    const error = parseError("$[?length(@.a, @.b) == 1]");
+    assert.equal(error.code, QueryErrorCode.ArgumentCountMismatch);
+    assert.deepEqual(error.details, {
+      functionName: "length",
+      expectedCount: 1,
+      actualCount: 2,
+    });
+  });
+
+  void test("should describe type mismatches", () => {
+    const error = parseError("$[?count(1) == 1]");
+    assert.equal(error.code, QueryErrorCode.TypeMismatch);
+    assert.deepEqual(error.details, {
+      functionName: "count",
+      expectedType: "NodesType",
+      actualType: "ValueType",
+    });
+
+    assert.deepEqual(parseError("$[?match(@.a, 'x') == true]").details, {
+      functionName: "match",
+      expectedType: "ValueType",
+      actualType: "LogicalType",
+    });
+  });
+
+  void test("should report type mismatches at the start of the expression", () => {
+    assert.equal(parseError("$[?value(@.a)]").offset, 3);
+    assert.equal(parseError("$[?@.a == match(@.b, 'x')]").offset, 10);
+    assert.equal(parseError("$[?count(length(@.a))]").offset, 9);
+  });
+
+  void test("should identify non-singular comparisons", () => {
+    assert.equal(
+      parseError("$[?@.* == 1]").code,
+      QueryErrorCode.NonSingularComparison,
+    );
+  });
+
+  void test("should identify invalid regular expressions", () => {
+    const error = parseError("$[?match(@.a, '[a')]");
+    assert.equal(error.code, QueryErrorCode.InvalidRegexp);
+    assert.deepEqual(error.details, { functionName: "match" });
+  });
+
+  void test("should identify evaluation errors", () => {
+    const root: { self?: unknown } = {};
+    root.self = root;
+    assert.throws(
+      () => evaluateQuery("$..*", root, { cycleMode: CycleMode.Throw }),
+      (error: unknown) =>
+        error instanceof QueryError &&
+        error.code === QueryErrorCode.CyclicReference,
+    );
+    assert.throws(
+      () => parseQuery("$.a.b.c", { parseLimits: { maxSegments: 2 } }),
+      (error: unknown) =>
+        error instanceof QueryLimitError &&
+        error.code === QueryErrorCode.LimitExceeded,
+    );
+  });
+
+  void test("should attach codes to diagnostics", () => {
+    const { diagnostics } = parseQueryWithDiagnostics("$[?blt(1)][0 1]");
+    assert.deepEqual(
+      diagnostics.map((diagnostic) => diagnostic.code),
+      [QueryErrorCode.UnknownFunction, QueryErrorCode.ExpectedComma],
+    );
+  });
+});
@@ -1,5 +1,235 @@
 import type { ProcessingErrorOptions } from "tool-json";
 import { ProcessingError } from "tool-json";
+import type { DeclaredTypeName } from "./expression.ts";
+import type { QueryLimits, ParseLimits } from "./limit.ts";
+
+/**
+ * Identifies the kind of problem that caused a `QueryError`. Codes are
+ * stable across releases, unlike error messages, so applications can
+ * match on them to handle or localize specific errors.
+ *
+ * @category Parse
+ */
+export type QueryErrorCode =
+  (typeof QueryErrorCode)[keyof typeof QueryErrorCode];
+
+/**
+ * @category Parse
+ */
+export const QueryErrorCode = {
+  /**
+   * The query doesn't begin with the root identifier `$`.
+   */
+  ExpectedRootIdentifier: "ExpectedRootIdentifier",
+
+  /**
+   * A query was expected, but not found.
+   */
+  ExpectedQuery: "ExpectedQuery",
+
+  /**
+   * The input contains characters that aren't part of the query.
+   */
+  InvalidQuery: "InvalidQuery",
+
+  /**
+   * A segment was expected, but not found.
+   */
+  ExpectedSegment: "ExpectedSegment",
+
+  /**
+   * The input contains an unrecognized segment.
+   */
+  InvalidSegment: "InvalidSegment",
+
+  /**
+   * A selector was expected, but not found.
+   */
+  ExpectedSelector: "ExpectedSelector",
+
+  /**
+   * The input contains an unrecognized selector.
+   */
+  InvalidSelector: "InvalidSelector",
+
+  /**
+   * A bracketed selection was expected, but not found.
+   */
+  ExpectedBracketedSelection: "ExpectedBracketedSelection",
+
+  /**
+   * A bracketed selection isn't closed with `]`.
+   */
+  ExpectedCloseBracket: "ExpectedCloseBracket",
+
+  /**
+   * Adjacent selectors or arguments aren't separated by a comma.
+   */
+  ExpectedComma: "ExpectedComma",
+
+  /**
+   * A member name was expected, but not found.
+   */
+  ExpectedName: "ExpectedName",
+
+  /**
+   * A digit was expected, but not found.
+   */
+  ExpectedDigit: "ExpectedDigit",
+
+  /**
+   * A number literal has a malformed fraction or exponent.
+   */
+  InvalidNumber: "InvalidNumber",
+
+  /**
+   * A string literal was expected, but not found.
+   */
+  ExpectedStringLiteral: "ExpectedStringLiteral",
+
+  /**
+   * A string literal isn't closed with its opening quote.
+   */
+  UnterminatedStringLiteral: "UnterminatedStringLiteral",
+
+  /**
+   * A string literal contains a character that must be escaped.
+   */
+  InvalidStringCharacter: "InvalidStringCharacter",
+
+  /**
+   * A string literal contains a malformed escape sequence.
+   */
+  InvalidEscapeSequence: "InvalidEscapeSequence",
+
+  /**
+   * A string literal contains an unpaired UTF-16 surrogate escape.
+   */
+  InvalidSurrogate: "InvalidSurrogate",
+
+  /**
+   * A JSON Pointer reference token doesn't begin with `/`.
+   */
+  ExpectedSlash: "ExpectedSlash",
+
+  /**
+   * An expression was expected, but not found.
+   */
+  ExpectedExpression: "ExpectedExpression",
+
+  /**
+   * The input contains an unrecognized expression.
+   */
+  InvalidExpression: "InvalidExpression",
+
+  /**
+   * An operator was expected, but not found.
+   */
+  ExpectedOperator: "ExpectedOperator",
+
+  /**
+   * An open parenthesis was expected, but not found.
+   */
+  ExpectedOpenParenthesis: "ExpectedOpenParenthesis",
+
+  /**
+   * A parenthesized expression isn't closed with `)`.
+   */
+  ExpectedCloseParenthesis: "ExpectedCloseParenthesis",
+
+  /**
+   * A query that may select more than one node is compared.
+   */
+  NonSingularComparison: "NonSingularComparison",
+
+  /**
+   * A function name was expected, but not found.
+   */
+  ExpectedFunctionName: "ExpectedFunctionName",
+
+  /**
+   * A function name doesn't match any function extension.
+   */
+  UnknownFunction: "UnknownFunction",
+
+  /**
+   * A literal keyword is misspelled, or isn't written in lowercase.
+   */
+  InvalidKeyword: "InvalidKeyword",
+
+  /**
+   * The query uses an operator that RFC 9535 doesn't define, such as one
+   * supported by other JSONPath implementations.
+   */
+  UnsupportedSyntax: "UnsupportedSyntax",
+
+  /**
+   * A function is called with the wrong number of arguments.
+   */
+  ArgumentCountMismatch: "ArgumentCountMismatch",
+
+  /**
+   * An expression is used where its declared type isn't allowed.
+   */
+  TypeMismatch: "TypeMismatch",
+
+  /**
+   * A regular expression is not a valid I-Regexp.
+   */
+  InvalidRegexp: "InvalidRegexp",
+
+  /**
+   * A regular expression is too large to compile safely.
+   */
+  RegexpTooLarge: "RegexpTooLarge",
+
+  /**
+   * Evaluation reached a node that refers back to one of its ancestors.
+   */
+  CyclicReference: "CyclicReference",
+
+  /**
+   * Parsing or evaluation exceeded one of its limits.
+   */
+  LimitExceeded: "LimitExceeded",
+} as const;
+
+/**
+ * Additional information about the cause of a `QueryError`.
+ *
+ * @category Parse
+ */
+export interface QueryErrorDetails {
+  /**
+   * The name of the function involved in the error.
+   */
+  readonly functionName?: string | undefined;
+
+  /**
+   * The name of the declared type that was expected, such as `"NodesType"`.
+   */
+  readonly expectedType?: DeclaredTypeName | undefined;
+
+  /**
+   * The name of the declared type that was found, such as `"ValueType"`.
+   */
+  readonly actualType?: DeclaredTypeName | undefined;
+
+  /**
+   * The number of function arguments that were expected.
+   */
+  readonly expectedCount?: number | undefined;
+
+  /**
+   * The number of function arguments that were found.
+   */
+  readonly actualCount?: number | undefined;
+
+  /**
+   * Corrections that may have been intended, closest first.
+   */
+  readonly suggestions?: readonly string[] | undefined;
+}
 
 /**
  * Initialization options for JSONPath parsing errors.
@@ -16,6 +246,16 @@ export interface QueryErrorOptions extends ProcessingErrorOptions {
    * The position in the input where the error occurred.
    */
   offset?: number | undefined;
+
+  /**
+   * The kind of problem that caused the error.
+   */
+  code?: QueryErrorCode | undefined;
+
+  /**
+   * Additional information about the cause of the error.
+   */
+  details?: QueryErrorDetails | undefined;
 }
 
 /**
@@ -34,9 +274,52 @@ export class QueryError extends ProcessingError {
    */
   offset?: number | undefined;
 
+  /**
+   * The kind of problem that caused the error.
+   */
+  code?: QueryErrorCode | undefined;
+
+  /**
+   * Additional information about the cause of the error.
+   */
+  details?: QueryErrorDetails | undefined;
+
   constructor(message?: string, options?: QueryErrorOptions) {
     super(message, options);
     this.input = options?.input;
     this.offset = options?.offset;
+    this.code = options?.code;
+    this.details = options?.details;
+  }
+}
+
+/**
+ * Initialization options for JSONPath evaluation limit errors.
+ *
+ * @category Limit
+ */
+export interface QueryLimitErrorOptions extends QueryErrorOptions {
+  /**
+   * The limit that was exceeded.
+   */
+  limit?: keyof QueryLimits | keyof ParseLimits | undefined;
+}
+
+/**
+ * An error that occurs when a JSONPath query string exceeds one of its
+ * parse limits, or when a query evaluation exceeds one of its resource
+ * limits.
+ *
+ * @category Limit
+ */
+export class QueryLimitError extends QueryError {
+  /**
+   * The limit that was exceeded.
+   */
+  limit?: keyof QueryLimits | keyof ParseLimits | undefined;
+
+  constructor(message?: string, options?: QueryLimitErrorOptions) {
+    super(message, { code: QueryErrorCode.LimitExceeded, ...options });
+    this.limit = options?.limit;
   }
 }
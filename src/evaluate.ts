@@ -1,12 +1,5 @@
 import type { Node, NodeList } from "tool-json";
-import {
-  isArray,
-  getChild,
-  getChildren,
-  getDescendants,
-  equal,
-  compare,
-} from "tool-json";
+import { compare } from "tool-json";
 import type { Query } from "./query.ts";
 import type { Segment, ChildSegment, DescendantSegment } from "./segment.ts";
 import { SegmentKind } from "./segment.ts";
@@ -36,10 +29,26 @@ import type {
 } from "./expression.ts";
 import { ExpressionKind, ComparisonOperator } from "./expression.ts";
 import { DeclaredType } from "./expression.ts";
-import { singularValue } from "./function.ts";
+import {
+  singularValue,
+  evaluateLogicalFunction,
+  syncFunctionResult,
+} from "./function.ts";
+import type { LocatedNode, LocatedNodeList } from "./location.ts";
+import { createLocatedNode } from "./location.ts";
 import type { QueryContext, QueryContextOptions } from "./context.ts";
 import { coerceQueryContext } from "./context.ts";
+import type { NodeAdapter } from "./adapter.ts";
+import { jsonNodeAdapter, getArrayLength, equalNodes } from "./adapter.ts";
+import {
+  visitQueryNode,
+  checkQueryDepth,
+  checkQueryOutput,
+  checkQueryInterrupt,
+} from "./limit.ts";
+import { enterQueryNode, getQueryNodePath } from "./cycle.ts";
 import { parseQuery } from "./parse.ts";
+import { formatNormalizedName, formatReferenceToken } from "./format.ts";
 
 /**
  * Evaluates a JSONPath query expression with the given root node
@@ -59,19 +68,19 @@ export function evaluateQuery(
     query = parseQuery(query, context);
   }
 
-  let nodes = [root];
-
-  const queryArgument = context.queryArgument;
-  try {
-    context.queryArgument = root;
-    for (const segment of query.segments) {
-      nodes = evaluateSegment(segment, nodes, context);
-    }
-  } finally {
-    context.queryArgument = queryArgument;
+  // Track the locations of nodes in cycle mode, so that cyclic references
+  // are reported by their paths in the root node.
+  if (context.cycleMode !== undefined) {
+    return evaluateQueryNodes(
+      query,
+      root,
+      createLocatedNode(root, "$", []),
+      locatedNodeTracker,
+      context,
+    ).map((node) => node.value);
   }
 
-  return nodes;
+  return evaluateQueryNodes(query, root, root, nodeTracker, context);
 }
 
 /**
@@ -84,15 +93,9 @@ export function evaluateSegment(
   nodes: Readonly<NodeList>,
   context: QueryContext,
 ): NodeList {
-  const kind = segment.kind;
-  switch (kind) {
-    case SegmentKind.Child:
-      return evaluateChildSegment(segment, nodes, context);
-    case SegmentKind.Descendant:
-      return evaluateDescendantSegment(segment, nodes, context);
-    default:
-      throw new TypeError("Invalid SegmentKind: " + kind);
-  }
+  const output: NodeList = [];
+  selectSegment(segment, nodes, nodeTracker, context, output);
+  return output;
 }
 
 /**
@@ -107,11 +110,7 @@ export function evaluateChildSegment(
   context: QueryContext,
 ): NodeList {
   const output: NodeList = [];
-  for (const selector of segment.selectors) {
-    for (const node of nodes) {
-      output.push(...evaluateSelector(selector, node, context));
-    }
-  }
+  selectChildSegment(segment, nodes, nodeTracker, context, output);
   return output;
 }
 
@@ -127,18 +126,7 @@ export function evaluateDescendantSegment(
   context: QueryContext,
 ): NodeList {
   const output: NodeList = [];
-  if (segment.selectors.length !== 0) {
-    for (const node of nodes) {
-      for (const selector of segment.selectors) {
-        output.push(...evaluateSelector(selector, node, context));
-      }
-      for (const descendant of getDescendants(node)) {
-        for (const selector of segment.selectors) {
-          output.push(...evaluateSelector(selector, descendant, context));
-        }
-      }
-    }
-  }
+  selectDescendantSegment(segment, nodes, nodeTracker, context, output);
   return output;
 }
 
@@ -152,21 +140,9 @@ export function evaluateSelector(
   node: Node,
   context: QueryContext,
 ): NodeList {
-  const kind = selector.kind;
-  switch (kind) {
-    case SelectorKind.Name:
-      return evaluateNameSelector(selector, node);
-    case SelectorKind.Wildcard:
-      return evaluateWildcardSelector(selector, node);
-    case SelectorKind.Index:
-      return evaluateIndexSelector(selector, node);
-    case SelectorKind.Slice:
-      return evaluateSliceSelector(selector, node);
-    case SelectorKind.Filter:
-      return evaluateFilterSelector(selector, node, context);
-    default:
-      throw new TypeError("Invalid SelectorKind: " + kind);
-  }
+  const output: NodeList = [];
+  selectSelector(selector, node, nodeTracker, context, output);
+  return output;
 }
 
 /**
@@ -178,12 +154,10 @@ export function evaluateSelector(
 export function evaluateNameSelector(
   selector: NameSelector,
   node: Node,
+  context?: QueryContext,
 ): NodeList {
   const output: NodeList = [];
-  const child = getChild(node, selector.name);
-  if (child !== undefined) {
-    output.push(child);
-  }
+  selectName(selector, node, nodeTracker, context, output);
   return output;
 }
 
@@ -196,8 +170,10 @@ export function evaluateNameSelector(
 export function evaluateWildcardSelector(
   selector: WildcardSelector,
   node: Node,
+  context?: QueryContext,
 ): NodeList {
-  return getChildren(node);
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  return adapter.children(node);
 }
 
 /**
@@ -209,17 +185,10 @@ export function evaluateWildcardSelector(
 export function evaluateIndexSelector(
   selector: IndexSelector,
   node: Node,
+  context?: QueryContext,
 ): NodeList {
-  let index = selector.index;
-  if (index < 0 && isArray(node)) {
-    index += node.length;
-  }
-
   const output: NodeList = [];
-  const child = isArray(node) ? node[index] : undefined;
-  if (child !== undefined) {
-    output.push(child);
-  }
+  selectIndex(selector, node, nodeTracker, context, output);
   return output;
 }
 
@@ -232,9 +201,426 @@ export function evaluateIndexSelector(
 export function evaluateSliceSelector(
   selector: SliceSelector,
   node: Node,
+  context?: QueryContext,
+): NodeList {
+  const output: NodeList = [];
+  selectSlice(selector, node, nodeTracker, context, output);
+  return output;
+}
+
+/**
+ * Evaluates a filter selector against the given node.
+ *
+ * @category Evaluate
+ * @internal
+ */
+export function evaluateFilterSelector(
+  selector: FilterSelector,
+  node: Node,
+  context: QueryContext,
 ): NodeList {
   const output: NodeList = [];
-  const len = isArray(node) ? node.length : 0;
+  selectFilter(selector, node, nodeTracker, context, output);
+  return output;
+}
+
+/**
+ * Evaluates a JSONPath query expression with the given root node
+ * as the query argument, pairing each resulting node with the
+ * normalized path of its location in the root node.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Evaluate
+ */
+export function evaluateQueryLocated(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): LocatedNodeList {
+  const context = coerceQueryContext(options);
+
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  return evaluateQueryNodes(
+    query,
+    root,
+    createLocatedNode(root, "$", []),
+    locatedNodeTracker,
+    context,
+  );
+}
+
+/**
+ * Evaluates a JSONPath query expression with the given root node
+ * as the query argument, returning the RFC 6901 JSON Pointer of each
+ * resulting node.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Evaluate
+ */
+export function evaluateQueryPointers(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): string[] {
+  const nodes = evaluateQueryLocated(query, root, options);
+  const pointers: string[] = [];
+  for (const node of nodes) {
+    let pointer = "";
+    for (const key of node.keys) {
+      pointer += "/" + formatReferenceToken(String(key));
+    }
+    pointers.push(pointer);
+  }
+  return pointers;
+}
+
+/**
+ * Evaluates a segment against the given located node list.
+ *
+ * @category Evaluate
+ */
+export function evaluateSegmentLocated(
+  segment: Segment,
+  nodes: Readonly<LocatedNodeList>,
+  context: QueryContext,
+): LocatedNodeList {
+  const output: LocatedNodeList = [];
+  selectSegment(segment, nodes, locatedNodeTracker, context, output);
+  return output;
+}
+
+/**
+ * Evaluates a selector against the given located node.
+ *
+ * @category Evaluate
+ */
+export function evaluateSelectorLocated(
+  selector: Selector,
+  node: LocatedNode,
+  context: QueryContext,
+): LocatedNodeList {
+  const output: LocatedNodeList = [];
+  selectSelector(selector, node, locatedNodeTracker, context, output);
+  return output;
+}
+
+/**
+ * Tracks the nodes selected by evaluation, either as bare nodes, or paired
+ * with their locations in the query argument. Every segment and selector
+ * is evaluated by a single traversal that's generic over the tracker.
+ *
+ * @category Evaluate
+ * @internal
+ */
+interface NodeTracker<T> {
+  /**
+   * Whether tracked nodes depend on the keys of their children, in which
+   * case the member names of object nodes must be looked up.
+   */
+  readonly located: boolean;
+
+  /**
+   * Returns the node referred to by a tracked node.
+   */
+  value(node: T): Node;
+
+  /**
+   * Returns the normalized path of a tracked node, or `@` if its location
+   * is unknown.
+   */
+  path(node: T, context: QueryContext): string;
+
+  /**
+   * Tracks the child of a tracked node with the given member name
+   * or array index.
+   */
+  child(parent: T, key: string | number, child: Node): T;
+}
+
+/**
+ * Tracks bare nodes.
+ *
+ * @category Evaluate
+ * @internal
+ */
+const nodeTracker: NodeTracker<Node> = {
+  located: false,
+
+  value(node: Node): Node {
+    return node;
+  },
+
+  path(node: Node, context: QueryContext): string {
+    return getQueryNodePath(context, node);
+  },
+
+  child(parent: Node, key: string | number, child: Node): Node {
+    return child;
+  },
+};
+
+/**
+ * Tracks nodes paired with their normalized paths.
+ *
+ * @category Evaluate
+ * @internal
+ */
+const locatedNodeTracker: NodeTracker<LocatedNode> = {
+  located: true,
+
+  value(node: LocatedNode): Node {
+    return node.value;
+  },
+
+  path(node: LocatedNode): string {
+    return node.path;
+  },
+
+  child: locateChildNode,
+};
+
+/**
+ * Pairs the child of a located node, which has the given member name
+ * or array index, with its normalized path.
+ *
+ * @category Evaluate
+ * @internal
+ */
+export function locateChildNode(
+  parent: LocatedNode,
+  key: string | number,
+  child: Node,
+): LocatedNode {
+  return createLocatedNode(
+    child,
+    parent.path +
+      "[" +
+      (typeof key === "string" ? formatNormalizedName(key) : key) +
+      "]",
+    [...parent.keys, key],
+  );
+}
+
+/**
+ * Evaluates the segments of a query against its tracked root node,
+ * binding the query argument for the duration of the evaluation.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function evaluateQueryNodes<T>(
+  query: Query,
+  root: Node,
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+): T[] {
+  let nodes = [node];
+
+  const queryArgument = context.queryArgument;
+  const queryResults = context.queryResults;
+  const queryNodeCount = context.queryNodeCount;
+  try {
+    context.queryArgument = root;
+    context.queryResults = new Map();
+    context.queryNodeCount = 0;
+    checkQueryInterrupt(context);
+    for (const segment of query.segments) {
+      const output: T[] = [];
+      selectSegment(segment, nodes, tracker, context, output);
+      nodes = output;
+    }
+  } finally {
+    context.queryArgument = queryArgument;
+    context.queryResults = queryResults;
+    context.queryNodeCount = queryNodeCount;
+  }
+
+  return nodes;
+}
+
+/**
+ * Appends the nodes selected by a segment from the given tracked nodes
+ * to the output list.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function selectSegment<T>(
+  segment: Segment,
+  nodes: readonly T[],
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+  output: T[],
+): void {
+  const kind = segment.kind;
+  switch (kind) {
+    case SegmentKind.Child:
+      selectChildSegment(segment, nodes, tracker, context, output);
+      break;
+    case SegmentKind.Descendant:
+      selectDescendantSegment(segment, nodes, tracker, context, output);
+      break;
+    default:
+      throw new TypeError("Invalid SegmentKind: " + kind);
+  }
+}
+
+/** @internal */
+function selectChildSegment<T>(
+  segment: ChildSegment,
+  nodes: readonly T[],
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+  output: T[],
+): void {
+  for (const node of nodes) {
+    visitQueryNode(context);
+    for (const selector of segment.selectors) {
+      selectSelector(selector, node, tracker, context, output);
+    }
+  }
+}
+
+/** @internal */
+function selectDescendantSegment<T>(
+  segment: DescendantSegment,
+  nodes: readonly T[],
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+  output: T[],
+): void {
+  if (segment.selectors.length === 0) {
+    return;
+  }
+  for (const node of nodes) {
+    visitQueryNode(context);
+    for (const selector of segment.selectors) {
+      selectSelector(selector, node, tracker, context, output);
+    }
+    const descendants = collectDescendants(
+      node,
+      tracker,
+      context,
+      1,
+      [],
+      tracker.path(node, context),
+    );
+    for (const descendant of descendants) {
+      for (const selector of segment.selectors) {
+        selectSelector(selector, descendant, tracker, context, output);
+      }
+    }
+  }
+}
+
+/**
+ * Appends the nodes selected from a tracked node to the output list.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function selectSelector<T>(
+  selector: Selector,
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+  output: T[],
+): void {
+  const kind = selector.kind;
+  switch (kind) {
+    case SelectorKind.Name:
+      selectName(selector, node, tracker, context, output);
+      break;
+    case SelectorKind.Wildcard:
+      selectChildren(node, tracker, context, output);
+      break;
+    case SelectorKind.Index:
+      selectIndex(selector, node, tracker, context, output);
+      break;
+    case SelectorKind.Slice:
+      selectSlice(selector, node, tracker, context, output);
+      break;
+    case SelectorKind.Filter:
+      selectFilter(selector, node, tracker, context, output);
+      break;
+    default:
+      throw new TypeError("Invalid SelectorKind: " + kind);
+  }
+}
+
+/** @internal */
+function selectName<T>(
+  selector: NameSelector,
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext | undefined,
+  output: T[],
+): void {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const child = adapter.child(tracker.value(node), selector.name);
+  if (child !== undefined) {
+    output.push(tracker.child(node, selector.name, child));
+    checkQueryOutput(context, output.length);
+  }
+}
+
+/** @internal */
+function selectChildren<T>(
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext | undefined,
+  output: T[],
+): void {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const value = tracker.value(node);
+  const children = adapter.children(value);
+  const names = getMemberNames(value, tracker.located, adapter);
+  for (let i = 0; i < children.length; i += 1) {
+    output.push(tracker.child(node, names?.[i] ?? i, children[i]));
+    checkQueryOutput(context, output.length);
+  }
+}
+
+/** @internal */
+function selectIndex<T>(
+  selector: IndexSelector,
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext | undefined,
+  output: T[],
+): void {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const value = tracker.value(node);
+  let index = selector.index;
+  if (index < 0) {
+    index += getArrayLength(value, adapter);
+  }
+
+  const child =
+    index >= 0 && adapter.isArray(value) ?
+      adapter.child(value, index)
+    : undefined;
+  if (child !== undefined) {
+    output.push(tracker.child(node, index, child));
+    checkQueryOutput(context, output.length);
+  }
+}
+
+/** @internal */
+function selectSlice<T>(
+  selector: SliceSelector,
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext | undefined,
+  output: T[],
+): void {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const value = tracker.value(node);
+  const len = getArrayLength(value, adapter);
   const step = len !== 0 ? (selector.step ?? 1) : 0;
 
   if (step > 0) {
@@ -247,7 +633,8 @@ export function evaluateSliceSelector(
     const lower = Math.min(Math.max(start, 0), len);
     const upper = Math.min(Math.max(end, 0), len);
     for (let i = lower; i < upper; i += step) {
-      output.push((node as NodeList)[i]);
+      output.push(tracker.child(node, i, adapter.child(value, i)));
+      checkQueryOutput(context, output.length);
     }
   } else if (step < 0) {
     let start = selector.start ?? len - 1;
@@ -259,31 +646,32 @@ export function evaluateSliceSelector(
     const upper = Math.min(Math.max(start, -1), len - 1);
     const lower = Math.min(Math.max(end, -1), len - 1);
     for (let i = upper; i > lower; i += step) {
-      output.push((node as NodeList)[i]);
+      output.push(tracker.child(node, i, adapter.child(value, i)));
+      checkQueryOutput(context, output.length);
     }
   }
-
-  return output;
 }
 
-/**
- * Evaluates a filter selector against the given node.
- *
- * @category Evaluate
- * @internal
- */
-export function evaluateFilterSelector(
+/** @internal */
+function selectFilter<T>(
   selector: FilterSelector,
-  node: Node,
+  node: T,
+  tracker: NodeTracker<T>,
   context: QueryContext,
-): NodeList {
-  const output: NodeList = [];
-  for (const child of getChildren(node)) {
+  output: T[],
+): void {
+  const adapter = context.nodeAdapter;
+  const value = tracker.value(node);
+  const children = adapter.children(value);
+  const names = getMemberNames(value, tracker.located, adapter);
+  for (let i = 0; i < children.length; i += 1) {
+    const child = children[i];
+    visitQueryNode(context);
     if (evaluateExpression(selector.expression, child, context)) {
-      output.push(child);
+      output.push(tracker.child(node, names?.[i] ?? i, child));
+      checkQueryOutput(context, output.length);
     }
   }
-  return output;
 }
 
 /**
@@ -390,9 +778,9 @@ export function evaluateComparisonExpression(
   const operator = expression.operator;
   switch (operator) {
     case ComparisonOperator.Equal:
-      return equal(lhs[0], rhs[0]);
+      return equalNodes(lhs[0], rhs[0], context.nodeAdapter);
     case ComparisonOperator.NotEqual:
-      return !equal(lhs[0], rhs[0]);
+      return !equalNodes(lhs[0], rhs[0], context.nodeAdapter);
     case ComparisonOperator.LessThan:
       return (compare(lhs[0], rhs[0]) ?? 1) < 0;
     case ComparisonOperator.LessThanOrEqual:
@@ -454,9 +842,22 @@ export function evaluateFunctionTestExpression(
         "ValueType function not supported in test expression",
       );
     case DeclaredType.Logical:
-      return expression.func.evaluate(args, context);
+      return syncFunctionResult(
+        expression.func,
+        evaluateLogicalFunction(
+          expression.func,
+          expression.regexp,
+          args,
+          context,
+        ),
+      );
     case DeclaredType.Nodes:
-      return existenceTest(expression.func.evaluate(args, context));
+      return existenceTest(
+        syncFunctionResult(
+          expression.func,
+          expression.func.evaluate(args, context),
+        ),
+      );
     default:
       throw new TypeError("Invalid DeclaredType: " + resultType);
   }
@@ -499,7 +900,9 @@ export function evaluateLiteralExpression(
 }
 
 /**
- * Evaluates a query expression against the given node.
+ * Evaluates a query expression against the given node. Absolute queries
+ * depend only on the query argument, so their results are computed once
+ * per query evaluation and shared by every node a filter tests.
  *
  * @category Evaluate
  * @internal
@@ -509,30 +912,24 @@ export function evaluateQueryExpression(
   node: Node,
   context: QueryContext,
 ): NodeList {
-  let root: Node;
   if (expression.identifier === "@") {
-    root = node;
+    return evaluateSegments(expression.segments, node, context);
   } else if (expression.identifier === "$") {
-    root = context.queryArgument;
+    let nodes = context.queryResults?.get(expression);
+    if (nodes === undefined) {
+      nodes = evaluateSegments(
+        expression.segments,
+        context.queryArgument,
+        context,
+      );
+      context.queryResults?.set(expression, nodes);
+    }
+    return nodes;
   } else {
     throw new TypeError(
       "Unsupported node identifier: " + expression.identifier,
     );
   }
-
-  let nodes = [root];
-
-  const queryArgument = context.queryArgument;
-  try {
-    context.queryArgument = root;
-    for (const segment of expression.segments) {
-      nodes = evaluateSegment(segment, nodes, context);
-    }
-  } finally {
-    context.queryArgument = queryArgument;
-  }
-
-  return nodes;
 }
 
 /**
@@ -551,7 +948,12 @@ export function evaluateFunctionExpression(
   const resultType = expression.func.resultType;
   switch (resultType) {
     case DeclaredType.Value:
-      return valueTypeList(expression.func.evaluate(args, context));
+      return valueTypeList(
+        syncFunctionResult(
+          expression.func,
+          expression.func.evaluate(args, context),
+        ),
+      );
     case DeclaredType.Logical:
       throw new TypeError(
         "LogicalType function not supported in comparison expression",
@@ -636,9 +1038,12 @@ function evaluateValueFunctionArgument(
     const resultType = expression.func.resultType;
     switch (resultType) {
       case DeclaredType.Value:
-        return expression.func.evaluate(
-          evaluateFunctionArguments(expression, node, context),
-          context,
+        return syncFunctionResult(
+          expression.func,
+          expression.func.evaluate(
+            evaluateFunctionArguments(expression, node, context),
+            context,
+          ),
         );
       case DeclaredType.Logical:
         throw new TypeError(
@@ -685,15 +1090,23 @@ function evaluateLogicalFunctionArgument(
           "ValueType function not supported in LogicalType argument position",
         );
       case DeclaredType.Logical:
-        return expression.func.evaluate(
-          evaluateFunctionArguments(expression, node, context),
-          context,
+        return syncFunctionResult(
+          expression.func,
+          evaluateLogicalFunction(
+            expression.func,
+            expression.regexp,
+            evaluateFunctionArguments(expression, node, context),
+            context,
+          ),
         );
       case DeclaredType.Nodes:
         return existenceTest(
-          expression.func.evaluate(
-            evaluateFunctionArguments(expression, node, context),
-            context,
+          syncFunctionResult(
+            expression.func,
+            expression.func.evaluate(
+              evaluateFunctionArguments(expression, node, context),
+              context,
+            ),
           ),
         );
       default:
@@ -727,9 +1140,12 @@ function evaluateNodesFunctionArgument(
           "LogicalType function not supported in NodesType argument position",
         );
       case DeclaredType.Nodes:
-        return expression.func.evaluate(
-          evaluateFunctionArguments(expression, node, context),
-          context,
+        return syncFunctionResult(
+          expression.func,
+          expression.func.evaluate(
+            evaluateFunctionArguments(expression, node, context),
+            context,
+          ),
         );
       default:
         throw new TypeError("Invalid DeclaredType: " + resultType);
@@ -745,6 +1161,24 @@ function evaluateNodesFunctionArgument(
   );
 }
 
+/**
+ * Evaluates a sequence of segments against the given node.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function evaluateSegments(
+  segments: readonly Segment[],
+  node: Node,
+  context: QueryContext,
+): NodeList {
+  let nodes = [node];
+  for (const segment of segments) {
+    nodes = evaluateSegment(segment, nodes, context);
+  }
+  return nodes;
+}
+
 /**
  * Returns `true` if the given node list is not empty.
  *
@@ -768,3 +1202,122 @@ function valueTypeList(value: ValueType): NodeList {
   }
   return output;
 }
+
+/**
+ * Returns the member names of an object node, in the same order as its
+ * children, if `needed`; otherwise returns `undefined`, and children are
+ * keyed by their position.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function getMemberNames(
+  node: Node,
+  needed: boolean,
+  adapter: NodeAdapter,
+): readonly string[] | undefined {
+  return needed && adapter.isObject(node) ? adapter.keys(node) : undefined;
+}
+
+/**
+ * Returns the descendants of a tracked node, with each node preceding its
+ * own descendants, subject to the evaluation limits of the query context.
+ * When the context has a cycle mode, `path` is the location of the node.
+ *
+ * @category Evaluate
+ * @internal
+ */
+function collectDescendants<T>(
+  node: T,
+  tracker: NodeTracker<T>,
+  context: QueryContext,
+  depth: number,
+  output: T[],
+  path: string,
+  ancestors: Map<Node, string> | undefined = context.cycleMode !== undefined ?
+    new Map([[tracker.value(node), path]])
+  : undefined,
+): T[] {
+  const adapter = context.nodeAdapter;
+  const value = tracker.value(node);
+  const children = adapter.children(value);
+  if (children.length === 0) {
+    return output;
+  }
+  checkQueryDepth(context, depth);
+
+  const names = getMemberNames(
+    value,
+    tracker.located || ancestors !== undefined,
+    adapter,
+  );
+  for (let i = 0; i < children.length; i += 1) {
+    const child = tracker.child(node, names?.[i] ?? i, children[i]);
+    visitQueryNode(context);
+    if (ancestors === undefined) {
+      output.push(child);
+      collectDescendants(child, tracker, context, depth + 1, output, path);
+      continue;
+    }
+    const childPath =
+      path +
+      "[" +
+      (names !== undefined ? formatNormalizedName(names[i]!) : String(i)) +
+      "]";
+    if (enterQueryNode(context, children[i], childPath, ancestors)) {
+      output.push(child);
+      collectDescendants(
+        child,
+        tracker,
+        context,
+        depth + 1,
+        output,
+        childPath,
+        ancestors,
+      );
+      ancestors.delete(children[i]);
+    }
+  }
+  return output;
+}
+
+/**
+ * Returns the descendants of a node, with each node preceding its own
+ * descendants, subject to the evaluation limits of the query context.
+ * When the context has a cycle mode, `path` is the location of the node,
+ * either in the query argument (`$`), or relative to the input node (`@`)
+ * of the descendant segment.
+ *
+ * @category Evaluate
+ * @internal
+ */
+export function getDescendantNodes(
+  node: Node,
+  context: QueryContext,
+  depth: number = 1,
+  output: NodeList = [],
+  path: string = getQueryNodePath(context, node),
+): NodeList {
+  return collectDescendants(node, nodeTracker, context, depth, output, path);
+}
+
+/**
+ * Returns the descendants of a located node, with each node preceding its
+ * own descendants, subject to the evaluation limits of the query context.
+ *
+ * @category Evaluate
+ * @internal
+ */
+export function getLocatedDescendantNodes(
+  node: LocatedNode,
+  context: QueryContext,
+): LocatedNodeList {
+  return collectDescendants(
+    node,
+    locatedNodeTracker,
+    context,
+    1,
+    [],
+    node.path,
+  );
+}
@@ -7,7 +7,15 @@ import type {
   LogicalFunctionExtension,
   NodesFunctionExtension,
 } from "tool-query";
-import { QueryError, DeclaredType, parseQuery, formatQuery } from "tool-query";
+import {
+  QueryError,
+  DeclaredType,
+  parseQuery,
+  formatQuery,
+  evaluateQuery,
+  compileQuery,
+  iterateQuery,
+} from "tool-query";
 
 void suite("Function expressions", () => {
   const fooFunction = {
@@ -112,3 +120,51 @@ void suite("Function expressions", () => {
     assert.throws(() => parseQuery("$[?blt(1)]"), QueryError);
   });
 });
+
+void suite("Query expressions", () => {
+  function createValue(): { count: number; value: unknown } {
+    const config = {
+      count: 0,
+      get admin(): string {
+        this.count += 1;
+        return "b";
+      },
+    };
+    return {
+      get count() {
+        return config.count;
+      },
+      value: {
+        config,
+        items: Array.from({ length: 100 }, (_, i) => ({
+          owner: i % 2 === 0 ? "a" : "b",
+        })),
+      },
+    };
+  }
+
+  void test("should evaluate absolute queries once per evaluation", () => {
+    const query = "$.items[?@.owner == $.config.admin]";
+
+    const evaluated = createValue();
+    assert.equal(evaluateQuery(query, evaluated.value).length, 50);
+    assert.equal(evaluated.count, 1);
+
+    const compiled = createValue();
+    assert.equal(compileQuery(query)(compiled.value).length, 50);
+    assert.equal(compiled.count, 1);
+    assert.equal(compileQuery(query)(compiled.value).length, 50);
+    assert.equal(compiled.count, 2);
+
+    const iterated = createValue();
+    assert.equal([...iterateQuery(query, iterated.value)].length, 50);
+    assert.equal(iterated.count, 1);
+  });
+
+  void test("should evaluate nested absolute queries against the root", () => {
+    const value = { x: 2, a: [{ b: [1, 2] }, { b: [3] }] } as const;
+    const query = "$.a[?@.b[?@ == $.x]]";
+    assert.deepEqual(evaluateQuery(query, value), [value.a[0]]);
+    assert.deepEqual(compileQuery(query)(value), [value.a[0]]);
+  });
+});
@@ -1,6 +1,8 @@
 import type { Node, NodeList } from "tool-json";
 import type { Segment } from "./segment.ts";
 import type { FunctionExtension } from "./function.ts";
+import type { IRegexpMatcher } from "./iregexp.ts";
+import type { SyntaxNode } from "./span.ts";
 
 /**
  * The declared result type of an expression.
@@ -26,6 +28,14 @@ export const DeclaredType = {
   Nodes: 2,
 } as const;
 
+/**
+ * The RFC 9535 name of a declared type, as reported in the details
+ * of type errors.
+ *
+ * @category Expression
+ */
+export type DeclaredTypeName = "ValueType" | "LogicalType" | "NodesType";
+
 /**
  * The result type of an expression that returns JSON values or Nothing.
  * The special result Nothing represents the absence of a JSON value and is
@@ -117,7 +127,7 @@ export function getExpressionPrecedence(expression: Expression): number {
  *
  * @category Expression
  */
-export interface OrExpression {
+export interface OrExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Or;
 
   readonly operands: readonly Expression[];
@@ -139,7 +149,7 @@ export function createOrExpression(
  *
  * @category Expression
  */
-export interface AndExpression {
+export interface AndExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.And;
 
   readonly operands: readonly Expression[];
@@ -188,7 +198,7 @@ export const ComparisonOperator = {
  *
  * @category Expression
  */
-export interface ComparisonExpression {
+export interface ComparisonExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Comparison;
 
   readonly lhs: ComparableExpression;
@@ -216,7 +226,7 @@ export function createComparisonExpression(
  *
  * @category Expression
  */
-export interface NotExpression {
+export interface NotExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Not;
 
   readonly operand: Expression;
@@ -236,7 +246,7 @@ export function createNotExpression(operand: Expression): NotExpression {
  *
  * @category Expression
  */
-export interface QueryExpression {
+export interface QueryExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Query;
 
   readonly identifier: "$" | "@";
@@ -261,7 +271,7 @@ export function createQueryExpression(
  *
  * @category Expression
  */
-export interface LiteralExpression {
+export interface LiteralExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Literal;
 
   readonly value: unknown;
@@ -281,12 +291,18 @@ export function createLiteralExpression(value: unknown): LiteralExpression {
  *
  * @category Expression
  */
-export interface FunctionExpression {
+export interface FunctionExpression extends SyntaxNode {
   readonly kind: typeof ExpressionKind.Function;
 
   readonly func: FunctionExtension;
 
   readonly args: readonly Expression[];
+
+  /**
+   * The matcher compiled from the literal pattern of a `match()` or
+   * `search()` call when the query was parsed.
+   */
+  readonly regexp?: IRegexpMatcher | undefined;
 }
 
 /**
@@ -297,6 +313,10 @@ export interface FunctionExpression {
 export function createFunctionExpression(
   func: FunctionExtension,
   args: readonly Expression[],
+  regexp?: IRegexpMatcher,
 ): FunctionExpression {
+  if (regexp !== undefined) {
+    return { kind: ExpressionKind.Function, func, args, regexp };
+  }
   return { kind: ExpressionKind.Function, func, args };
 }
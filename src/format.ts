@@ -40,6 +40,79 @@ export function formatQuery(query: Query): string {
   return output;
 }
 
+/**
+ * Serializes a JSONPath query expression as an RFC 9535 normalized path.
+ *
+ * @see [RFC 9535 §2.7](https://datatracker.ietf.org/doc/html/rfc9535#section-2.7)
+ * @throws TypeError if the query contains any segment other than a child
+ * segment with a single name selector or non-negative index selector.
+ * @category Format
+ */
+export function formatNormalizedPath(query: Query): string {
+  let output = "$";
+  for (const segment of query.segments) {
+    const selector = segment.selectors[0];
+    if (
+      segment.kind !== SegmentKind.Child ||
+      segment.selectors.length !== 1 ||
+      selector === undefined
+    ) {
+      throw new TypeError("Normalized path segments must be singular");
+    }
+
+    if (selector.kind === SelectorKind.Name) {
+      output += "[" + formatNormalizedName(selector.name) + "]";
+    } else if (selector.kind === SelectorKind.Index && selector.index >= 0) {
+      output += "[" + String(selector.index) + "]";
+    } else {
+      throw new TypeError(
+        "Normalized path selectors must be names or non-negative indices",
+      );
+    }
+  }
+  return output;
+}
+
+/**
+ * Serializes a singular JSONPath query expression as an RFC 6901
+ * JSON Pointer.
+ *
+ * Each segment must be a child segment with a single name selector or
+ * non-negative index selector.
+ *
+ * @see [RFC 6901](https://datatracker.ietf.org/doc/html/rfc6901)
+ * @throws TypeError if the query has no JSON Pointer representation.
+ * @category Format
+ */
+export function formatJsonPointer(query: Query): string {
+  let output = "";
+  for (const segment of query.segments) {
+    if (segment.kind !== SegmentKind.Child) {
+      throw new TypeError("JSON Pointers cannot select descendants");
+    }
+
+    const selectors = segment.selectors;
+    const selector = selectors[0];
+    let token: string;
+    if (selectors.length === 1 && selector?.kind === SelectorKind.Name) {
+      token = selector.name;
+    } else if (
+      selectors.length === 1 &&
+      selector?.kind === SelectorKind.Index &&
+      selector.index >= 0
+    ) {
+      token = String(selector.index);
+    } else {
+      throw new TypeError(
+        "JSON Pointer segments must select a single name or non-negative index",
+      );
+    }
+
+    output += "/" + formatReferenceToken(token);
+  }
+  return output;
+}
+
 /**
  * Serializes a JSONPath segment as an RFC 9535 string.
  *
@@ -423,6 +496,69 @@ function formatStringLiteral(value: string): string {
   return result;
 }
 
+/**
+ * Serializes a member name as a single-quoted string literal
+ * with the canonical escaping of an RFC 9535 normalized path.
+ *
+ * @see [RFC 9535 §2.7](https://datatracker.ietf.org/doc/html/rfc9535#section-2.7)
+ * @internal
+ */
+export function formatNormalizedName(name: string): string {
+  let result = "'";
+
+  for (let i = 0; i < name.length; i += 1) {
+    const c = name.charCodeAt(i);
+    // normal-unescaped = %x20-26 / %x28-5B / %x5D-D7FF / %xE000-10FFFF
+    if (c >= 0x20 && c !== 0x27 /*"'"*/ && c !== 0x5c /*"\\"*/) {
+      result += name[i]!;
+      continue;
+    }
+
+    // normal-escapable = %x62 / %x66 / %x6E / %x72 / %x74 /
+    //                    "'" / "\" / (%x75 normal-hexchar)
+    switch (c) {
+      case 0x27: // "'"
+        result += "\\'";
+        continue;
+      case 0x5c: // "\\"
+        result += "\\\\";
+        continue;
+      case 0x08: // "\b"
+        result += "\\b";
+        continue;
+      case 0x0c: // "\f"
+        result += "\\f";
+        continue;
+      case 0x0a: // "\n"
+        result += "\\n";
+        continue;
+      case 0x0d: // "\r"
+        result += "\\r";
+        continue;
+      case 0x09: // "\t"
+        result += "\\t";
+        continue;
+      default: // normal-hexchar (lowercase)
+        result += "\\u" + c.toString(16).padStart(4, "0");
+        continue;
+    }
+  }
+
+  result += "'";
+  return result;
+}
+
+/**
+ * Escapes a member name or array index as an RFC 6901 reference token.
+ *
+ * @internal
+ */
+export function formatReferenceToken(token: string): string {
+  // escaped = "~" ( "0" / "1" )
+  //           ; representing '~' and '/', respectively
+  return token.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
 /** @internal */
 function isValidShorthandName(name: string): boolean {
   if (name.length === 0 || !isNameFirstChar(name.charCodeAt(0))) {
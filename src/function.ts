@@ -1,4 +1,4 @@
-import { isString, isArray, isObject, unicodeLength } from "tool-json";
+import { isString, unicodeLength } from "tool-json";
 import type {
   ValueType,
   LogicalType,
@@ -7,9 +7,13 @@ import type {
 } from "./expression.ts";
 import { DeclaredType } from "./expression.ts";
 import type { QueryContext } from "./context.ts";
+import { jsonNodeAdapter, getArrayLength } from "./adapter.ts";
+import type { IRegexpMatcher } from "./iregexp.ts";
+import { tryCompileIRegexp, tryCompileSafeIRegexp } from "./iregexp.ts";
 
 /**
- * A JSONPath function extension.
+ * A JSONPath function extension. Function extensions that return promises
+ * can only be called by `evaluateQueryAsync`.
  *
  * @see [RFC 9535 §2.4](https://datatracker.ietf.org/doc/html/rfc9535#section-2.4)
  * @category Function
@@ -34,7 +38,7 @@ export interface ValueFunctionExtension {
   readonly evaluate: (
     args: readonly ExpressionType[],
     context: QueryContext,
-  ) => ValueType;
+  ) => ValueType | PromiseLike<ValueType>;
 }
 
 /**
@@ -52,7 +56,7 @@ export interface LogicalFunctionExtension {
   readonly evaluate: (
     args: readonly ExpressionType[],
     context: QueryContext,
-  ) => LogicalType;
+  ) => LogicalType | PromiseLike<LogicalType>;
 }
 
 /**
@@ -70,7 +74,7 @@ export interface NodesFunctionExtension {
   readonly evaluate: (
     args: readonly ExpressionType[],
     context: QueryContext,
-  ) => NodesType;
+  ) => NodesType | PromiseLike<NodesType>;
 }
 
 /**
@@ -101,14 +105,15 @@ export const lengthFunction = {
   name: "length",
   parameterTypes: [DeclaredType.Value],
   resultType: DeclaredType.Value,
-  evaluate(args: readonly ExpressionType[]): ValueType {
+  evaluate(args: readonly ExpressionType[], context?: QueryContext): ValueType {
     const value = args[0];
+    const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
     if (isString(value)) {
       return unicodeLength(value);
-    } else if (isArray(value)) {
-      return value.length;
-    } else if (isObject(value)) {
-      return Object.keys(value).length;
+    } else if (adapter.isArray(value)) {
+      return getArrayLength(value, adapter);
+    } else if (adapter.isObject(value)) {
+      return adapter.keys(value).length;
     }
     return undefined;
   },
@@ -170,13 +175,23 @@ export const matchFunction = {
   name: "match",
   parameterTypes: [DeclaredType.Value, DeclaredType.Value],
   resultType: DeclaredType.Logical,
-  evaluate(args: readonly ExpressionType[]): LogicalType {
+  evaluate(
+    args: readonly ExpressionType[],
+    context?: QueryContext,
+  ): LogicalType {
     const value = args[0];
     const regex = args[1];
     if (!isString(value) || !isString(regex)) {
       return false;
     }
-    return new RegExp("^(?:" + regex + ")$").test(value);
+    const regexp =
+      context?.safeRegexps === true ?
+        tryCompileSafeIRegexp(regex, true, context.regexpCache)
+      : tryCompileIRegexp(regex, true, context?.regexpCache);
+    if (regexp === undefined) {
+      return false;
+    }
+    return regexp.test(value);
   },
 } as const satisfies LogicalFunctionExtension;
 
@@ -205,13 +220,23 @@ export const searchFunction = {
   name: "search",
   parameterTypes: [DeclaredType.Value, DeclaredType.Value],
   resultType: DeclaredType.Logical,
-  evaluate(args: readonly ExpressionType[]): LogicalType {
+  evaluate(
+    args: readonly ExpressionType[],
+    context?: QueryContext,
+  ): LogicalType {
     const value = args[0];
     const regex = args[1];
     if (!isString(value) || !isString(regex)) {
       return false;
     }
-    return new RegExp(regex).test(value);
+    const regexp =
+      context?.safeRegexps === true ?
+        tryCompileSafeIRegexp(regex, false, context.regexpCache)
+      : tryCompileIRegexp(regex, false, context?.regexpCache);
+    if (regexp === undefined) {
+      return false;
+    }
+    return regexp.test(value);
   },
 } as const satisfies LogicalFunctionExtension;
 
@@ -264,6 +289,66 @@ export function singularValue(nodes: NodesType): ValueType {
   return undefined;
 }
 
+/**
+ * Evaluates a LogicalType function extension. Calls whose literal pattern
+ * was compiled when the query was parsed test their first argument
+ * against it directly, unless it was compiled for the other kind of
+ * matcher than the one selected by `safeRegexps`.
+ *
+ * @category Function
+ * @internal
+ */
+export function evaluateLogicalFunction(
+  func: LogicalFunctionExtension,
+  regexp: IRegexpMatcher | undefined,
+  args: readonly ExpressionType[],
+  context: QueryContext,
+): LogicalType | PromiseLike<LogicalType> {
+  if (
+    regexp !== undefined &&
+    regexp instanceof RegExp !== (context.safeRegexps === true)
+  ) {
+    const value = args[0];
+    return isString(value) && regexp.test(value);
+  }
+  return func.evaluate(args, context);
+}
+
+/**
+ * Returns the result of a synchronously evaluated function extension.
+ *
+ * @throws TypeError if the function extension returned a promise.
+ * @category Function
+ * @internal
+ */
+export function syncFunctionResult<T>(
+  func: FunctionExtension,
+  result: T | PromiseLike<T>,
+): T {
+  if (isPromiseLike(result)) {
+    throw new TypeError(
+      "Function " +
+        func.name +
+        " returned a promise, which requires asynchronous evaluation",
+    );
+  }
+  return result;
+}
+
+/**
+ * Returns `true` if the given value is a promise or other thenable.
+ *
+ * @category Function
+ * @internal
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
 /**
  * The intrinsic function extensions defined in RFC 9535.
  *
@@ -0,0 +1,250 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  QueryError,
+  translateIRegexp,
+  isIRegexp,
+  compileIRegexp,
+  tryCompileIRegexp,
+  compileSafeIRegexp,
+  tryCompileSafeIRegexp,
+  createRegexpCache,
+  parseQuery,
+  evaluateQuery,
+  compileQuery,
+  matchFunction,
+  searchFunction,
+} from "tool-query";
+
+void suite("I-Regexps", () => {
+  void test("should translate I-Regexps", () => {
+    assert.equal(translateIRegexp(""), "");
+    assert.equal(translateIRegexp("ab|c"), "ab|c");
+    assert.equal(translateIRegexp("(a|b)*c+d?"), "(?:a|b)*c+d?");
+    assert.equal(translateIRegexp("a{2}b{1,}c{0,3}"), "a{2}b{1,}c{0,3}");
+    assert.equal(translateIRegexp("a.b"), "a[^\\n\\r]b");
+    assert.equal(translateIRegexp("^a$"), "\\^a\\$");
+    assert.equal(translateIRegexp("\\-\\.\\n"), "-\\.\\n");
+    assert.equal(translateIRegexp("[^a-z\\-]"), "[^a-z\\-]");
+    assert.equal(translateIRegexp("[-a-]"), "[\\-a\\-]");
+    assert.equal(
+      translateIRegexp("\\p{Lu}\\P{N}[\\p{L}_]"),
+      "\\p{Lu}\\P{N}[\\p{L}_]",
+    );
+    assert.equal(translateIRegexp("\u{1F600}+"), "\u{1F600}+");
+  });
+
+  void test("should compile literal patterns into the query", () => {
+    const regexpCache = createRegexpCache(4);
+    const value = [{ s: "ab" }, { s: "ba" }];
+    const query = parseQuery("$[?match(@.s, 'a.')]", { regexpCache });
+    assert.deepEqual(evaluateQuery(query, value, { regexpCache }), [value[0]]);
+    assert.deepEqual(compileQuery(query, { regexpCache })(value), [value[0]]);
+    assert.equal(regexpCache.size, 0);
+    assert.deepEqual(
+      evaluateQuery(query, value, { regexpCache, safeRegexps: true }),
+      [value[0]],
+    );
+    assert.ok(regexpCache.get("a.", true, true) !== undefined);
+  });
+
+  void test("should cache patterns taken from the queried data", () => {
+    const regexpCache = createRegexpCache(4);
+    const value = [
+      { s: "ab", p: "b." },
+      { s: "ba", p: "b." },
+    ];
+    const query = parseQuery("$[?match(@.s, @.p)]", { regexpCache });
+    assert.equal(regexpCache.size, 0);
+    assert.deepEqual(evaluateQuery(query, value, { regexpCache }), [value[1]]);
+    const regexp = regexpCache.get("b.", true, false);
+    assert.ok(regexp instanceof RegExp);
+    assert.equal(regexpCache.size, 1);
+    regexpCache.clear();
+    assert.equal(regexpCache.size, 0);
+  });
+
+  void test("should evict the least recently used I-Regexp", () => {
+    const regexpCache = createRegexpCache(2);
+    const a = compileIRegexp("a", false, regexpCache);
+    compileIRegexp("b", false, regexpCache);
+    assert.equal(compileIRegexp("a", false, regexpCache), a);
+    compileIRegexp("c", false, regexpCache);
+    assert.equal(regexpCache.size, 2);
+    assert.equal(regexpCache.get("b", false, false), undefined);
+    assert.equal(compileIRegexp("a", false, regexpCache), a);
+  });
+
+  void test("should reject invalid I-Regexps", () => {
+    for (const pattern of [
+      "(",
+      ")",
+      "a**",
+      "a*?",
+      "*a",
+      "a{2,1}",
+      "a{,2}",
+      "a{2",
+      "[]",
+      "[^]",
+      "[a",
+      "[z-a]",
+      "[a-b-c]",
+      "[\\p{L}-z]",
+      "(?:a)",
+      "(?=a)",
+      "(a)\\1",
+      "\\d",
+      "\\w",
+      "\\b",
+      "\\p{Cs}",
+      "\\p{Lx}",
+      "\\p{L",
+      "a\\",
+      "\ud800",
+    ]) {
+      assert.throws(() => translateIRegexp(pattern), QueryError, pattern);
+      assert.equal(isIRegexp(pattern), false, pattern);
+    }
+  });
+
+  void test("should match entire strings", () => {
+    assert.equal(matchFunction.evaluate(["1974-05-01", "1974-05-.."]), true);
+    assert.equal(matchFunction.evaluate(["1974-05-011", "1974-05-.."]), false);
+    assert.equal(matchFunction.evaluate(["ab", "a|ab"]), true);
+    assert.equal(matchFunction.evaluate(["a$", "a$"]), true);
+    assert.equal(matchFunction.evaluate([" ", "."]), true);
+    assert.equal(matchFunction.evaluate(["\n", "."]), false);
+    assert.equal(matchFunction.evaluate(["\u{1F600}", "."]), true);
+    assert.equal(matchFunction.evaluate(["é", "\\p{Ll}"]), true);
+  });
+
+  void test("should search strings", () => {
+    assert.equal(searchFunction.evaluate(["Bob", "[BR]ob"]), true);
+    assert.equal(searchFunction.evaluate(["Alice", "[BR]ob"]), false);
+    assert.equal(searchFunction.evaluate(["a^b", "^b"]), true);
+    assert.equal(searchFunction.evaluate(["b", "^b"]), false);
+  });
+
+  void test("should not match invalid I-Regexps", () => {
+    assert.equal(matchFunction.evaluate(["aa", "(a)\\1"]), false);
+    assert.equal(searchFunction.evaluate(["ab", "a(?=b)"]), false);
+    assert.equal(searchFunction.evaluate(["1", "\\d"]), false);
+  });
+});
+
+void suite("Compiled I-Regexps", () => {
+  void test("should cache compiled I-Regexps", () => {
+    const regexp = compileIRegexp("a+b");
+    assert.equal(compileIRegexp("a+b"), regexp);
+    assert.notEqual(compileIRegexp("a+b", true), regexp);
+    assert.equal(regexp.test("xaab"), true);
+    assert.equal(compileIRegexp("a+b", true).test("xaab"), false);
+  });
+
+  void test("should reject invalid I-Regexps", () => {
+    assert.equal(tryCompileIRegexp("(?=a)"), undefined);
+    assert.throws(() => compileIRegexp("(?=a)"), QueryError);
+    assert.throws(() => compileIRegexp("(?=a)"), QueryError);
+  });
+
+  void test("should reject invalid literal patterns at parse time", () => {
+    assert.throws(
+      () => parseQuery("$[?match(@, '(?=a)')]"),
+      (error) => error instanceof QueryError && error.offset === 12,
+    );
+    assert.throws(() => parseQuery("$[?search(@.a, '\\\\d')]"), QueryError);
+    assert.doesNotThrow(() => parseQuery("$[?search(@.a, 'a|b')]"));
+    assert.doesNotThrow(() => parseQuery("$[?search(@.a, @.b)]"));
+  });
+
+  void test("should not match invalid dynamic patterns", () => {
+    const value = [
+      { s: "ab", p: "a(?=b)" },
+      { s: "ab", p: "a." },
+    ];
+    assert.deepEqual(evaluateQuery("$[?search(@.s, @.p)]", value), [value[1]]);
+  });
+});
+
+void suite("Safe I-Regexps", () => {
+  void test("should match like native regular expressions", () => {
+    const patterns = [
+      "",
+      "a",
+      "a|b|",
+      "ab*c",
+      "(ab)+",
+      "a?b?",
+      "a{2}",
+      "a{1,}b",
+      "a{1,3}",
+      "(a|ab)(c|bcd)",
+      "[^a-c]+",
+      "\\p{Lu}\\P{Lu}",
+      ".+",
+      "\\^$|\\.",
+      "(()*)*x",
+    ];
+    const inputs = [
+      "",
+      "a",
+      "b",
+      "ab",
+      "abc",
+      "abbbc",
+      "abab",
+      "aaa",
+      "aaaa",
+      "abcd",
+      "xyz",
+      "Ab",
+      "\u2028",
+      "^$",
+      "x",
+      "\u{1F600}",
+    ];
+    for (const pattern of patterns) {
+      for (const anchored of [true, false]) {
+        const native = compileIRegexp(pattern, anchored);
+        const safe = compileSafeIRegexp(pattern, anchored);
+        for (const input of inputs) {
+          assert.equal(
+            safe.test(input),
+            native.test(input),
+            JSON.stringify({ pattern, anchored, input }),
+          );
+        }
+      }
+    }
+  });
+
+  void test("should match catastrophic patterns in linear time", () => {
+    const input = "a".repeat(10000) + "c";
+    assert.equal(compileSafeIRegexp("(a+)+b", true).test(input), false);
+    assert.equal(compileSafeIRegexp("(a|a)*b").test(input), false);
+    assert.equal(compileSafeIRegexp("(a|aa)+c", true).test(input), true);
+  });
+
+  void test("should reject patterns that are too large", () => {
+    assert.equal(tryCompileSafeIRegexp("(a{100}){200}"), undefined);
+    assert.throws(() => compileSafeIRegexp("(a{100}){200}"), QueryError);
+    assert.notEqual(tryCompileIRegexp("(a{100}){200}"), undefined);
+  });
+
+  void test("should evaluate regular expression functions safely", () => {
+    const value = [{ x: "a".repeat(10000) }, { x: "aab" }];
+    assert.deepEqual(
+      evaluateQuery("$[?match(@.x, '(a+)+b')]", value, { safeRegexps: true }),
+      [value[1]],
+    );
+    assert.deepEqual(
+      evaluateQuery("$[?search(@.x, $[1].x)]", value, { safeRegexps: true }),
+      [value[1]],
+    );
+    assert.throws(
+      () => parseQuery("$[?match(@, '(a{100}){200}')]", { safeRegexps: true }),
+      QueryError,
+    );
+  });
+});
@@ -0,0 +1,1018 @@
+import { QueryErrorCode, QueryError } from "./error.ts";
+
+/** @internal */
+interface InputBuffer {
+  readonly input: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * A single character expression, paired with the code point it matches.
+ *
+ * @internal
+ */
+interface ClassChar {
+  readonly source: string;
+  readonly codePoint: number;
+}
+
+/**
+ * An alternation of I-Regexp branches.
+ *
+ * @internal
+ */
+interface RegexpAlternation {
+  readonly branches: readonly (readonly RegexpPiece[])[];
+}
+
+/**
+ * An I-Regexp atom with an optional quantifier.
+ *
+ * @internal
+ */
+interface RegexpPiece {
+  readonly atom: RegexpAtom;
+  readonly quantifier: string;
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * An I-Regexp atom, which is either a parenthesized group, or a character
+ * expression that matches a single code point. `codePoint` is defined when
+ * a character expression matches exactly one code point.
+ *
+ * @internal
+ */
+type RegexpAtom =
+  | { readonly group: RegexpAlternation }
+  | { readonly source: string; readonly codePoint: number | undefined };
+
+/**
+ * An object that tests strings against a compiled regular expression.
+ * `RegExp` objects are I-Regexp matchers.
+ *
+ * @category Regexp
+ */
+export interface IRegexpMatcher {
+  /**
+   * Returns `true` if the regular expression matches the given string.
+   */
+  test(input: string): boolean;
+}
+
+/**
+ * Translates an RFC 9485 I-Regexp into the source of an equivalent
+ * ECMAScript regular expression, which must be compiled with the `u` flag.
+ * The translated pattern is unanchored; wrap it in `^(?:` and `)$`
+ * to match entire strings.
+ *
+ * @throws QueryError if the pattern is not a valid I-Regexp.
+ * @see [RFC 9485 §5.3](https://datatracker.ietf.org/doc/html/rfc9485#section-5.3)
+ * @category Regexp
+ */
+export function translateIRegexp(pattern: string): string {
+  return formatRegexp(parseIRegexp(pattern));
+}
+
+/**
+ * Translates an RFC 9485 I-Regexp into the source of an equivalent
+ * ECMAScript regular expression, returning `undefined` if the pattern
+ * is not a valid I-Regexp.
+ *
+ * @category Regexp
+ */
+export function tryTranslateIRegexp(pattern: string): string | undefined {
+  try {
+    return translateIRegexp(pattern);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns `true` if the given pattern is a valid RFC 9485 I-Regexp.
+ *
+ * @category Regexp
+ */
+export function isIRegexp(pattern: string): boolean {
+  return tryTranslateIRegexp(pattern) !== undefined;
+}
+
+/**
+ * Compiles an RFC 9485 I-Regexp into an ECMAScript regular expression.
+ * Anchored regular expressions match entire strings, as required by the
+ * `match()` function; unanchored regular expressions match substrings,
+ * as required by the `search()` function.
+ *
+ * Compiled regular expressions are held in the given cache, so repeatedly
+ * compiling the same pattern returns the same `RegExp` object.
+ * Defaults to `defaultRegexpCache`.
+ *
+ * @throws QueryError if the pattern is not a valid I-Regexp.
+ * @category Regexp
+ */
+export function compileIRegexp(
+  pattern: string,
+  anchored: boolean = false,
+  regexpCache: RegexpCache = defaultRegexpCache,
+): RegExp {
+  return compileCachedRegexp(pattern, anchored, false, regexpCache) as RegExp;
+}
+
+/**
+ * Compiles an RFC 9485 I-Regexp into an ECMAScript regular expression,
+ * returning `undefined` if the pattern is not a valid I-Regexp.
+ *
+ * @category Regexp
+ */
+export function tryCompileIRegexp(
+  pattern: string,
+  anchored: boolean = false,
+  regexpCache: RegexpCache = defaultRegexpCache,
+): RegExp | undefined {
+  return tryCompileCachedRegexp(pattern, anchored, false, regexpCache) as
+    | RegExp
+    | undefined;
+}
+
+/**
+ * Compiles an RFC 9485 I-Regexp into a matcher that runs in time linear
+ * in the product of the pattern and input lengths, regardless of the shape
+ * of the pattern. Safe matchers can't be driven into catastrophic
+ * backtracking, at the cost of being slower than native regular
+ * expressions on benign patterns.
+ *
+ * Counted quantifiers are expanded when compiled, so patterns that would
+ * expand to more than 10,000 instructions are rejected.
+ *
+ * @throws QueryError if the pattern is not a valid I-Regexp,
+ * or if it's too large to compile.
+ * @category Regexp
+ */
+export function compileSafeIRegexp(
+  pattern: string,
+  anchored: boolean = false,
+  regexpCache: RegexpCache = defaultRegexpCache,
+): IRegexpMatcher {
+  return compileCachedRegexp(pattern, anchored, true, regexpCache);
+}
+
+/**
+ * Compiles an RFC 9485 I-Regexp into a linear-time matcher, returning
+ * `undefined` if the pattern is not a valid I-Regexp, or if it's too large
+ * to compile.
+ *
+ * @category Regexp
+ */
+export function tryCompileSafeIRegexp(
+  pattern: string,
+  anchored: boolean = false,
+  regexpCache: RegexpCache = defaultRegexpCache,
+): IRegexpMatcher | undefined {
+  return tryCompileCachedRegexp(pattern, anchored, true, regexpCache);
+}
+
+/** @internal */
+function compileCachedRegexp(
+  pattern: string,
+  anchored: boolean,
+  safe: boolean,
+  regexpCache: RegexpCache,
+): IRegexpMatcher {
+  const matcher = tryCompileCachedRegexp(pattern, anchored, safe, regexpCache);
+  if (matcher === undefined) {
+    // Recover the error of the cached invalid pattern.
+    compileRegexp(pattern, anchored, safe);
+  }
+  return matcher!;
+}
+
+/** @internal */
+function tryCompileCachedRegexp(
+  pattern: string,
+  anchored: boolean,
+  safe: boolean,
+  regexpCache: RegexpCache,
+): IRegexpMatcher | undefined {
+  let matcher = regexpCache.get(pattern, anchored, safe);
+  if (matcher === undefined) {
+    try {
+      matcher = compileRegexp(pattern, anchored, safe);
+    } catch {
+      matcher = null;
+    }
+    regexpCache.set(pattern, anchored, safe, matcher);
+  }
+  return matcher ?? undefined;
+}
+
+/**
+ * Compiles an RFC 9485 I-Regexp into a native or linear-time matcher,
+ * without consulting a cache.
+ *
+ * @throws QueryError if the pattern is not a valid I-Regexp,
+ * or if it's too large to compile.
+ * @category Regexp
+ * @internal
+ */
+export function compileRegexp(
+  pattern: string,
+  anchored: boolean,
+  safe: boolean,
+): IRegexpMatcher {
+  const regexp = parseIRegexp(pattern);
+  if (safe) {
+    return createProgramMatcher(compileProgram(regexp, pattern), anchored);
+  }
+  const source = formatRegexp(regexp);
+  return new RegExp(anchored ? "^(?:" + source + ")$" : source, "u");
+}
+
+/**
+ * A bounded cache of compiled I-Regexps, which evicts the least recently
+ * used matcher when full. Matchers are keyed by their pattern, and by
+ * whether they're anchored and linear-time safe. Invalid patterns are
+ * cached as `null`, so that they aren't repeatedly reparsed.
+ *
+ * @category Regexp
+ */
+export interface RegexpCache {
+  /**
+   * The maximum number of matchers held by the cache.
+   */
+  readonly capacity: number;
+
+  /**
+   * The number of matchers currently held by the cache.
+   */
+  readonly size: number;
+
+  /**
+   * Returns the cached matcher for the given pattern and mode, `null` if
+   * the pattern is cached as invalid, or `undefined` if it's not cached.
+   */
+  get(
+    pattern: string,
+    anchored: boolean,
+    safe: boolean,
+  ): IRegexpMatcher | null | undefined;
+
+  /**
+   * Caches the matcher compiled from the given pattern and mode,
+   * or `null` if the pattern is invalid.
+   */
+  set(
+    pattern: string,
+    anchored: boolean,
+    safe: boolean,
+    matcher: IRegexpMatcher | null,
+  ): void;
+
+  /**
+   * Removes all matchers from the cache.
+   */
+  clear(): void;
+}
+
+/**
+ * Creates a new regular expression cache that holds at most `capacity`
+ * compiled matchers.
+ *
+ * @category Regexp
+ */
+export function createRegexpCache(capacity: number = 1024): RegexpCache {
+  const entries = new Map<string, IRegexpMatcher | null>();
+
+  return {
+    capacity,
+
+    get size(): number {
+      return entries.size;
+    },
+
+    get(pattern, anchored, safe): IRegexpMatcher | null | undefined {
+      const key = getRegexpCacheKey(pattern, anchored, safe);
+      const matcher = entries.get(key);
+      if (matcher !== undefined) {
+        // Move the entry to the most recently used position.
+        entries.delete(key);
+        entries.set(key, matcher);
+      }
+      return matcher;
+    },
+
+    set(pattern, anchored, safe, matcher): void {
+      if (capacity <= 0) {
+        return;
+      }
+      const key = getRegexpCacheKey(pattern, anchored, safe);
+      entries.delete(key);
+      entries.set(key, matcher);
+      while (entries.size > capacity) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * The regular expression cache used by query contexts
+ * that don't configure their own.
+ *
+ * @category Regexp
+ */
+export const defaultRegexpCache: RegexpCache = createRegexpCache();
+
+/** @internal */
+function getRegexpCacheKey(
+  pattern: string,
+  anchored: boolean,
+  safe: boolean,
+): string {
+  return (anchored ? "^" : "") + (safe ? "!" : "") + "/" + pattern;
+}
+
+/** @internal */
+function parseIRegexp(pattern: string): RegexpAlternation {
+  const buf = { input: pattern, offset: 0, limit: pattern.length };
+
+  // i-regexp = branch *( "|" branch )
+  const regexp = parseRegexp(buf);
+
+  if (buf.offset !== buf.limit) {
+    throw new QueryError("Unbalanced I-Regexp group", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  return regexp;
+}
+
+/** @internal */
+function parseRegexp(buf: InputBuffer): RegexpAlternation {
+  // i-regexp = branch *( "|" branch )
+  const branches = [parseBranch(buf)];
+  while (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x7c /*"|"*/
+  ) {
+    buf.offset += 1; // "|"
+    branches.push(parseBranch(buf));
+  }
+  return { branches };
+}
+
+/** @internal */
+function parseBranch(buf: InputBuffer): RegexpPiece[] {
+  // branch = *piece
+  const pieces: RegexpPiece[] = [];
+  while (buf.offset < buf.limit) {
+    const c = buf.input.charCodeAt(buf.offset);
+    if (c === 0x7c /*"|"*/ || c === 0x29 /*")"*/) {
+      break;
+    }
+    pieces.push(parsePiece(buf));
+  }
+  return pieces;
+}
+
+/** @internal */
+function parsePiece(buf: InputBuffer): RegexpPiece {
+  // piece = atom [ quantifier ]
+  const atom = parseAtom(buf);
+  const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+
+  // quantifier = ( "*" / "+" / "?" ) / range-quantifier
+  if (c === 0x2a /*"*"*/) {
+    buf.offset += 1;
+    return { atom, quantifier: "*", min: 0, max: Infinity };
+  } else if (c === 0x2b /*"+"*/) {
+    buf.offset += 1;
+    return { atom, quantifier: "+", min: 1, max: Infinity };
+  } else if (c === 0x3f /*"?"*/) {
+    buf.offset += 1;
+    return { atom, quantifier: "?", min: 0, max: 1 };
+  } else if (c === 0x7b /*"{"*/) {
+    return parseRangeQuantifier(atom, buf);
+  }
+  return { atom, quantifier: "", min: 1, max: 1 };
+}
+
+/** @internal */
+function parseRangeQuantifier(atom: RegexpAtom, buf: InputBuffer): RegexpPiece {
+  // range-quantifier = "{" QuantExact [ "," [ QuantExact ] ] "}"
+  const start = buf.offset;
+  buf.offset += 1; // "{"
+
+  const min = Number(parseQuantExact(buf));
+  let max = min;
+
+  if (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x2c /*","*/
+  ) {
+    buf.offset += 1; // ","
+    max = Infinity;
+    if (buf.offset < buf.limit && isDigit(buf.input.charCodeAt(buf.offset))) {
+      max = Number(parseQuantExact(buf));
+      if (max < min) {
+        throw new QueryError("Out of order quantifier bounds", {
+          ...buf,
+          code: QueryErrorCode.InvalidRegexp,
+        });
+      }
+    }
+  }
+
+  if (
+    buf.offset >= buf.limit ||
+    buf.input.charCodeAt(buf.offset) !== 0x7d /*"}"*/
+  ) {
+    throw new QueryError('Expected "}"', {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += 1; // "}"
+
+  return { atom, quantifier: buf.input.slice(start, buf.offset), min, max };
+}
+
+/** @internal */
+function parseQuantExact(buf: InputBuffer): string {
+  // QuantExact = 1*%x30-39 ; '0'-'9'
+  const start = buf.offset;
+  while (buf.offset < buf.limit && isDigit(buf.input.charCodeAt(buf.offset))) {
+    buf.offset += 1;
+  }
+  if (buf.offset === start) {
+    throw new QueryError("Expected digit", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  return buf.input.slice(start, buf.offset);
+}
+
+/** @internal */
+function parseAtom(buf: InputBuffer): RegexpAtom {
+  // atom = NormalChar / charClass / ( "(" i-regexp ")" )
+  const c = buf.input.codePointAt(buf.offset)!;
+
+  if (c === 0x28 /*"("*/) {
+    buf.offset += 1; // "("
+    const group = parseRegexp(buf);
+    if (
+      buf.offset >= buf.limit ||
+      buf.input.charCodeAt(buf.offset) !== 0x29 /*")"*/
+    ) {
+      throw new QueryError('Expected ")"', {
+        ...buf,
+        code: QueryErrorCode.InvalidRegexp,
+      });
+    }
+    buf.offset += 1; // ")"
+    return { group };
+  }
+
+  // charClass = "." / SingleCharEsc / charClassEsc / charClassExpr
+  if (c === 0x2e /*"."*/) {
+    buf.offset += 1; // "."
+    // Unlike ECMAScript, I-Regexp dots match U+2028 and U+2029.
+    return { source: "[^\\n\\r]", codePoint: undefined };
+  } else if (c === 0x5b /*"["*/) {
+    return { source: translateCharClassExpr(buf), codePoint: undefined };
+  } else if (c === 0x5c /*"\\"*/) {
+    const next = buf.input.charCodeAt(buf.offset + 1);
+    if (next === 0x70 /*"p"*/ || next === 0x50 /*"P"*/) {
+      return { source: translateCharClassEsc(buf), codePoint: undefined };
+    } else if (next === 0x2d /*"-"*/) {
+      // ECMAScript only permits "\-" within character classes.
+      buf.offset += 2; // "\-"
+      return { source: "-", codePoint: 0x2d };
+    }
+    return translateSingleCharEsc(buf);
+  }
+
+  if (!isNormalChar(c)) {
+    throw new QueryError("Invalid I-Regexp character", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += c > 0xffff ? 2 : 1;
+  if (c === 0x5e /*"^"*/ || c === 0x24 /*"$"*/) {
+    // Anchors in ECMAScript, but literal characters in I-Regexp.
+    return { source: "\\" + String.fromCharCode(c), codePoint: c };
+  }
+  return { source: String.fromCodePoint(c), codePoint: c };
+}
+
+/** @internal */
+function formatRegexp(regexp: RegexpAlternation): string {
+  let source = "";
+  for (let i = 0; i < regexp.branches.length; i += 1) {
+    if (i !== 0) {
+      source += "|";
+    }
+    for (const piece of regexp.branches[i]!) {
+      if ("group" in piece.atom) {
+        source += "(?:" + formatRegexp(piece.atom.group) + ")";
+      } else {
+        source += piece.atom.source;
+      }
+      source += piece.quantifier;
+    }
+  }
+  return source;
+}
+
+/** @internal */
+function translateCharClassExpr(buf: InputBuffer): string {
+  // charClassExpr = "[" [ "^" ] ( "-" / CCE1 ) *CCE1 [ "-" ] "]"
+  buf.offset += 1; // "["
+  let source = "[";
+
+  if (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x5e /*"^"*/
+  ) {
+    buf.offset += 1; // "^"
+    source += "^";
+  }
+
+  if (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x2d /*"-"*/
+  ) {
+    buf.offset += 1; // "-"
+    source += "\\-";
+  } else {
+    source += translateCCE1(buf);
+  }
+
+  while (true) {
+    if (buf.offset >= buf.limit) {
+      throw new QueryError('Expected "]"', {
+        ...buf,
+        code: QueryErrorCode.InvalidRegexp,
+      });
+    }
+    const c = buf.input.charCodeAt(buf.offset);
+    if (c === 0x5d /*"]"*/) {
+      break;
+    } else if (c === 0x2d /*"-"*/) {
+      buf.offset += 1; // "-"
+      if (
+        buf.offset >= buf.limit ||
+        buf.input.charCodeAt(buf.offset) !== 0x5d /*"]"*/
+      ) {
+        throw new QueryError('Expected "]"', {
+          ...buf,
+          code: QueryErrorCode.InvalidRegexp,
+        });
+      }
+      source += "\\-";
+      break;
+    }
+    source += translateCCE1(buf);
+  }
+  buf.offset += 1; // "]"
+
+  return source + "]";
+}
+
+/** @internal */
+function translateCCE1(buf: InputBuffer): string {
+  // CCE1 = ( CCchar [ "-" CCchar ] ) / charClassEsc
+  if (buf.input.charCodeAt(buf.offset) === 0x5c /*"\\"*/) {
+    const next = buf.input.charCodeAt(buf.offset + 1);
+    if (next === 0x70 /*"p"*/ || next === 0x50 /*"P"*/) {
+      return translateCharClassEsc(buf);
+    }
+  }
+
+  const start = translateCCchar(buf);
+  if (
+    buf.offset + 1 < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x2d /*"-"*/ &&
+    buf.input.charCodeAt(buf.offset + 1) !== 0x5d /*"]"*/
+  ) {
+    buf.offset += 1; // "-"
+    const end = translateCCchar(buf);
+    if (end.codePoint < start.codePoint) {
+      throw new QueryError("Out of order character class range", {
+        ...buf,
+        code: QueryErrorCode.InvalidRegexp,
+      });
+    }
+    return start.source + "-" + end.source;
+  }
+  return start.source;
+}
+
+/** @internal */
+function translateCCchar(buf: InputBuffer): ClassChar {
+  // CCchar = ( %x00-2C / %x2E-5A ; '.'-'Z'
+  //          / %x5E-D7FF / %xE000-10FFFF ) / SingleCharEsc
+  if (buf.offset >= buf.limit) {
+    throw new QueryError('Expected "]"', {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  const c = buf.input.codePointAt(buf.offset)!;
+  if (c === 0x5c /*"\\"*/) {
+    return translateSingleCharEsc(buf);
+  }
+  if (
+    c === 0x2d /*"-"*/ ||
+    c === 0x5b /*"["*/ ||
+    c === 0x5d /*"]"*/ ||
+    (c >= 0xd800 && c <= 0xdfff)
+  ) {
+    throw new QueryError("Invalid I-Regexp character class character", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += c > 0xffff ? 2 : 1;
+  return { source: String.fromCodePoint(c), codePoint: c };
+}
+
+/** @internal */
+function translateSingleCharEsc(buf: InputBuffer): ClassChar {
+  // SingleCharEsc = "\" ( %x28-2B ; '('-'+'
+  //                     / "-" / "." / "?" / %x5B-5E ; '['-'^'
+  //                     / %s"n" / %s"r" / %s"t" / %x7B-7D ; '{'-'}'
+  //                     )
+  buf.offset += 1; // "\"
+  const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+
+  let codePoint: number;
+  if (isSingleCharEscChar(c)) {
+    codePoint = c;
+  } else if (c === 0x6e /*"n"*/) {
+    codePoint = 0x0a;
+  } else if (c === 0x72 /*"r"*/) {
+    codePoint = 0x0d;
+  } else if (c === 0x74 /*"t"*/) {
+    codePoint = 0x09;
+  } else {
+    throw new QueryError("Invalid I-Regexp escape sequence", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += 1;
+
+  return { source: "\\" + String.fromCharCode(c), codePoint };
+}
+
+/** @internal */
+function translateCharClassEsc(buf: InputBuffer): string {
+  // charClassEsc = catEsc / complEsc
+  // catEsc = %s"\p{" charProp "}"
+  // complEsc = %s"\P{" charProp "}"
+  const escape = buf.input.slice(buf.offset, buf.offset + 2);
+  buf.offset += 2; // "\p" / "\P"
+
+  if (
+    buf.offset >= buf.limit ||
+    buf.input.charCodeAt(buf.offset) !== 0x7b /*"{"*/
+  ) {
+    throw new QueryError('Expected "{"', {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += 1; // "{"
+
+  // charProp = IsCategory
+  const start = buf.offset;
+  const category = buf.input.charAt(buf.offset);
+  const subcategories = categories[category];
+  if (subcategories === undefined) {
+    throw new QueryError("Invalid Unicode general category", {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += 1;
+  if (
+    buf.offset < buf.limit &&
+    subcategories.includes(buf.input.charAt(buf.offset))
+  ) {
+    buf.offset += 1;
+  }
+  const charProp = buf.input.slice(start, buf.offset);
+
+  if (
+    buf.offset >= buf.limit ||
+    buf.input.charCodeAt(buf.offset) !== 0x7d /*"}"*/
+  ) {
+    throw new QueryError('Expected "}"', {
+      ...buf,
+      code: QueryErrorCode.InvalidRegexp,
+    });
+  }
+  buf.offset += 1; // "}"
+
+  return escape + "{" + charProp + "}";
+}
+
+/**
+ * The Unicode general categories supported by I-Regexp,
+ * mapped to their supported subcategory letters.
+ *
+ * @internal
+ */
+const categories: { readonly [category: string]: string | undefined } = {
+  // Letters = %s"L" [ ( %s"l" / %s"m" / %s"o" / %s"t" / %s"u" ) ]
+  L: "lmotu",
+  // Marks = %s"M" [ ( %s"c" / %s"e" / %s"n" ) ]
+  M: "cen",
+  // Numbers = %s"N" [ ( %s"d" / %s"l" / %s"o" ) ]
+  N: "dlo",
+  // Punctuation = %s"P" [ ( %x63-66 ; 'c'-'f' / %s"i" / %s"o" / %s"s" ) ]
+  P: "cdefios",
+  // Separators = %s"Z" [ ( %s"l" / %s"p" / %s"s" ) ]
+  Z: "lps",
+  // Symbols = %s"S" [ ( %s"c" / %s"k" / %s"m" / %s"o" ) ]
+  S: "ckmo",
+  // Others = %s"C" [ ( %s"c" / %s"f" / %s"n" / %s"o" ) ]
+  C: "cfno",
+};
+
+/**
+ * An instruction of a compiled I-Regexp program.
+ *
+ * @internal
+ */
+type Instruction =
+  | { readonly op: "char"; readonly test: (c: number) => boolean }
+  | { readonly op: "split"; x: number; y: number }
+  | { readonly op: "jump"; x: number }
+  | { readonly op: "match" };
+
+/**
+ * The maximum number of instructions in a compiled I-Regexp program.
+ *
+ * @internal
+ */
+const maxProgramLength = 10000;
+
+/**
+ * Compiles a parsed I-Regexp into a program for a Thompson NFA simulation,
+ * expanding counted quantifiers into repeated instructions.
+ *
+ * @throws QueryError if the program would be too long.
+ * @internal
+ */
+function compileProgram(
+  regexp: RegexpAlternation,
+  pattern: string,
+): Instruction[] {
+  const program: Instruction[] = [];
+  const tests = new Map<RegexpAtom, (c: number) => boolean>();
+
+  const emit = <T extends Instruction>(instruction: T): T => {
+    if (program.length >= maxProgramLength) {
+      throw new QueryError("I-Regexp is too large to compile safely", {
+        input: pattern,
+        code: QueryErrorCode.RegexpTooLarge,
+      });
+    }
+    program.push(instruction);
+    return instruction;
+  };
+
+  const emitAlternation = (alternation: RegexpAlternation): void => {
+    const jumps: { op: "jump"; x: number }[] = [];
+    const branches = alternation.branches;
+    for (let i = 0; i < branches.length; i += 1) {
+      if (i === branches.length - 1) {
+        emitBranch(branches[i]!);
+        break;
+      }
+      const split = emit({ op: "split", x: program.length + 1, y: 0 });
+      emitBranch(branches[i]!);
+      jumps.push(emit({ op: "jump", x: 0 }));
+      split.y = program.length;
+    }
+    for (const jump of jumps) {
+      jump.x = program.length;
+    }
+  };
+
+  const emitBranch = (branch: readonly RegexpPiece[]): void => {
+    for (const piece of branch) {
+      emitPiece(piece);
+    }
+  };
+
+  const emitPiece = (piece: RegexpPiece): void => {
+    for (let i = 0; i < piece.min; i += 1) {
+      emitAtom(piece.atom);
+    }
+    if (piece.max === Infinity) {
+      const loop = program.length;
+      const split = emit({ op: "split", x: loop + 1, y: 0 });
+      emitAtom(piece.atom);
+      emit({ op: "jump", x: loop });
+      split.y = program.length;
+    } else {
+      const splits: { op: "split"; x: number; y: number }[] = [];
+      for (let i = piece.min; i < piece.max; i += 1) {
+        splits.push(emit({ op: "split", x: program.length + 1, y: 0 }));
+        emitAtom(piece.atom);
+      }
+      for (const split of splits) {
+        split.y = program.length;
+      }
+    }
+  };
+
+  const emitAtom = (atom: RegexpAtom): void => {
+    if ("group" in atom) {
+      emitAlternation(atom.group);
+      return;
+    }
+    let test = tests.get(atom);
+    if (test === undefined) {
+      test = createCharTest(atom.source, atom.codePoint);
+      tests.set(atom, test);
+    }
+    emit({ op: "char", test });
+  };
+
+  emitAlternation(regexp);
+  emit({ op: "match" });
+  return program;
+}
+
+/**
+ * Returns a function that tests whether a code point matches
+ * a single character expression.
+ *
+ * @internal
+ */
+function createCharTest(
+  source: string,
+  codePoint: number | undefined,
+): (c: number) => boolean {
+  if (codePoint !== undefined) {
+    return (c: number): boolean => c === codePoint;
+  }
+  // Character expressions match exactly one code point,
+  // so native matching of them can't backtrack.
+  const regexp = new RegExp("^(?:" + source + ")$", "u");
+  return (c: number): boolean => regexp.test(String.fromCodePoint(c));
+}
+
+/**
+ * Returns a matcher that runs a compiled I-Regexp program.
+ *
+ * @internal
+ */
+function createProgramMatcher(
+  program: readonly Instruction[],
+  anchored: boolean,
+): IRegexpMatcher {
+  return {
+    test(input: string): boolean {
+      return runProgram(program, input, anchored);
+    },
+  };
+}
+
+/**
+ * Runs a compiled I-Regexp program against the given input, advancing
+ * every live thread one code point at a time, so that no input position
+ * is ever revisited.
+ *
+ * @internal
+ */
+function runProgram(
+  program: readonly Instruction[],
+  input: string,
+  anchored: boolean,
+): boolean {
+  const marks = new Int32Array(program.length).fill(-1);
+  let step = 0;
+  let threads: number[] = [];
+  addThread(program, threads, marks, step, 0);
+
+  let offset = 0;
+  while (true) {
+    for (const pc of threads) {
+      if (
+        program[pc]!.op === "match" &&
+        (!anchored || offset === input.length)
+      ) {
+        return true;
+      }
+    }
+    if (offset >= input.length) {
+      return false;
+    }
+
+    const c = input.codePointAt(offset)!;
+    offset += c > 0xffff ? 2 : 1;
+    step += 1;
+
+    const next: number[] = [];
+    for (const pc of threads) {
+      const instruction = program[pc]!;
+      if (instruction.op === "char" && instruction.test(c)) {
+        addThread(program, next, marks, step, pc + 1);
+      }
+    }
+    if (!anchored) {
+      addThread(program, next, marks, step, 0);
+    }
+    if (next.length === 0) {
+      return false;
+    }
+    threads = next;
+  }
+}
+
+/**
+ * Adds the thread at the given instruction to the thread list,
+ * following jumps and splits, and skipping threads already added
+ * during the current step.
+ *
+ * @internal
+ */
+function addThread(
+  program: readonly Instruction[],
+  threads: number[],
+  marks: Int32Array,
+  step: number,
+  pc: number,
+): void {
+  const stack = [pc];
+  while (stack.length !== 0) {
+    const pc = stack.pop()!;
+    if (marks[pc] === step) {
+      continue;
+    }
+    marks[pc] = step;
+    const instruction = program[pc]!;
+    if (instruction.op === "jump") {
+      stack.push(instruction.x);
+    } else if (instruction.op === "split") {
+      stack.push(instruction.y, instruction.x);
+    } else {
+      threads.push(pc);
+    }
+  }
+}
+
+/** @internal */
+function isNormalChar(c: number): boolean {
+  // NormalChar = ( %x00-27 / "," / "-" / %x2F-3E ; '/'-'>'
+  //              / %x40-5A ; '@'-'Z'
+  //              / %x5E-7A ; '^'-'z'
+  //              / %x7E-D7FF ; skip surrogate code points
+  //              / %xE000-10FFFF )
+  if (c >= 0x2f /*"/"*/ && c <= 0x3e /*">"*/) {
+    return true;
+  } else if (c >= 0x40 /*"@"*/ && c <= 0x5a /*"Z"*/) {
+    return true;
+  } else if (c >= 0x5e /*"^"*/ && c <= 0x7a /*"z"*/) {
+    return true;
+  }
+  return (
+    (c >= 0x00 && c <= 0x27) ||
+    c === 0x2c /*","*/ ||
+    c === 0x2d /*"-"*/ ||
+    (c >= 0x7e /*"~"*/ && c <= 0xd7ff) ||
+    (c >= 0xe000 && c <= 0x10ffff)
+  );
+}
+
+/** @internal */
+function isSingleCharEscChar(c: number): boolean {
+  // %x28-2B / "-" / "." / "?" / %x5B-5E / %x7B-7D
+  if (c >= 0x28 /*"("*/ && c <= 0x2b /*"+"*/) {
+    return true;
+  } else if (c >= 0x5b /*"["*/ && c <= 0x5e /*"^"*/) {
+    return true;
+  } else if (c >= 0x7b /*"{"*/ && c <= 0x7d /*"}"*/) {
+    return true;
+  }
+  return c === 0x2d /*"-"*/ || c === 0x2e /*"."*/ || c === 0x3f /*"?"*/;
+}
+
+/** @internal */
+function isDigit(c: number): boolean {
+  return c >= 0x30 /*"0"*/ && c <= 0x39 /*"9"*/;
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  QueryError,
+  evaluateQuery,
+  iterateQuery,
+  firstQuery,
+  existsQuery,
+  takeQuery,
+} from "tool-query";
+
+void suite("Lazy queries", () => {
+  const value = {
+    o: { j: 1, k: 2 },
+    a: [5, 3, [{ j: 4 }, { k: 6 }]],
+    s: [
+      [1, 2],
+      [3, 4],
+    ],
+  } as const;
+
+  void test("should yield nodes in evaluation order", () => {
+    for (const query of [
+      "$",
+      "$..*",
+      "$..j",
+      "$..[0]",
+      "$.a[::-1]",
+      "$.s[*][1, 0]",
+      "$..[?@.j]",
+      "$.a[?@ == $.a[1]]",
+    ]) {
+      assert.deepEqual(
+        [...iterateQuery(query, value)],
+        evaluateQuery(query, value),
+      );
+    }
+  });
+
+  void test("should stop traversal after early termination", () => {
+    let visited = 0;
+    const items = new Proxy([{ x: 1 }, { x: 2 }, { x: 3 }], {
+      get(target, key, receiver) {
+        if (typeof key === "string" && /^\d+$/.test(key)) {
+          visited += 1;
+        }
+        return Reflect.get(target, key, receiver) as unknown;
+      },
+    });
+    assert.deepEqual(firstQuery("$[?@.x > 0]", items), { x: 1 });
+    assert.equal(visited, 1);
+  });
+
+  void test("should return the first node", () => {
+    assert.deepEqual(firstQuery("$..j", value), 1);
+    assert.equal(firstQuery("$..z", value), undefined);
+  });
+
+  void test("should test for existence", () => {
+    assert.equal(existsQuery("$..k", value), true);
+    assert.equal(existsQuery("$..z", value), false);
+  });
+
+  void test("should reject malformed queries before iterating", () => {
+    assert.throws(() => iterateQuery("$[", value), QueryError);
+    assert.throws(() => takeQuery("$[", value, 0), QueryError);
+  });
+
+  void test("should take a bounded number of nodes", () => {
+    assert.deepEqual(takeQuery("$..*", value, 3), [value.o, value.a, value.s]);
+    assert.deepEqual(takeQuery("$..j", value, 5), [1, 4]);
+    assert.deepEqual(takeQuery("$..j", value, 0), []);
+  });
+});
@@ -0,0 +1,480 @@
+import type { Node, NodeList } from "tool-json";
+import type { Query } from "./query.ts";
+import type { Segment, ChildSegment, DescendantSegment } from "./segment.ts";
+import { SegmentKind } from "./segment.ts";
+import type {
+  Selector,
+  NameSelector,
+  WildcardSelector,
+  IndexSelector,
+  SliceSelector,
+  FilterSelector,
+} from "./selector.ts";
+import { SelectorKind } from "./selector.ts";
+import type { QueryExpression } from "./expression.ts";
+import type { QueryContext, QueryContextOptions } from "./context.ts";
+import { coerceQueryContext } from "./context.ts";
+import { parseQuery } from "./parse.ts";
+import { evaluateExpression } from "./evaluate.ts";
+import type { NodeAdapter } from "./adapter.ts";
+import { jsonNodeAdapter, getArrayLength } from "./adapter.ts";
+import {
+  visitQueryNode,
+  checkQueryDepth,
+  checkQueryOutput,
+  checkQueryInterrupt,
+} from "./limit.ts";
+import { enterQueryNode, getQueryNodePath } from "./cycle.ts";
+import { formatNormalizedName } from "./format.ts";
+
+/**
+ * Lazily evaluates a JSONPath query expression with the given root node
+ * as the query argument, yielding each resulting node as soon as it's
+ * selected. Nodes are yielded in the same order as `evaluateQuery`
+ * returns them, and no more of the root node is traversed than is needed
+ * to produce the nodes consumed by the caller.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Iterate
+ */
+export function iterateQuery(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): Generator<Node, void, undefined> {
+  const context = coerceQueryContext(options);
+
+  // Parse eagerly, so that malformed queries throw when the iterator
+  // is created rather than when it's first advanced.
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  return iterateQueryNodes(query, root, context);
+}
+
+/** @internal */
+function* iterateQueryNodes(
+  query: Query,
+  root: Node,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  let nodes: Iterable<Node> = [root];
+  for (const segment of query.segments) {
+    nodes = iterateSegment(segment, nodes, context);
+  }
+  const iterator = nodes[Symbol.iterator]();
+  const results = new Map<QueryExpression, NodeList>();
+  let nodeCount = 0;
+
+  // Only bind the query argument while the pipeline is running, so that
+  // the context can be shared with other evaluations between yields.
+  try {
+    while (true) {
+      const queryArgument = context.queryArgument;
+      const queryResults = context.queryResults;
+      const queryNodeCount = context.queryNodeCount;
+      let result: IteratorResult<Node>;
+      try {
+        context.queryArgument = root;
+        context.queryResults = results;
+        context.queryNodeCount = nodeCount;
+        checkQueryInterrupt(context);
+        result = iterator.next();
+      } finally {
+        nodeCount = context.queryNodeCount;
+        context.queryArgument = queryArgument;
+        context.queryResults = queryResults;
+        context.queryNodeCount = queryNodeCount;
+      }
+      if (result.done === true) {
+        break;
+      }
+      yield result.value;
+    }
+  } finally {
+    iterator.return?.();
+  }
+}
+
+/**
+ * Returns the first node selected by a JSONPath query expression,
+ * or `undefined` if the query selects no nodes.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Iterate
+ */
+export function firstQuery(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): Node | undefined {
+  for (const node of iterateQuery(query, root, options)) {
+    return node;
+  }
+  return undefined;
+}
+
+/**
+ * Returns `true` if a JSONPath query expression selects at least one node.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Iterate
+ */
+export function existsQuery(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): boolean {
+  return iterateQuery(query, root, options).next().done !== true;
+}
+
+/**
+ * Returns at most the first `count` nodes selected by a JSONPath
+ * query expression.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Iterate
+ */
+export function takeQuery(
+  query: Query | string,
+  root: Node,
+  count: number,
+  options?: QueryContextOptions,
+): NodeList {
+  const nodes = iterateQuery(query, root, options);
+  const output: NodeList = [];
+  if (count <= 0) {
+    return output;
+  }
+  for (const node of nodes) {
+    output.push(node);
+    if (output.length >= count) {
+      break;
+    }
+  }
+  return output;
+}
+
+/**
+ * Lazily evaluates a segment against the given nodes.
+ *
+ * @category Iterate
+ */
+export function iterateSegment(
+  segment: Segment,
+  nodes: Iterable<Node>,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  const kind = segment.kind;
+  switch (kind) {
+    case SegmentKind.Child:
+      return iterateChildSegment(segment, nodes, context);
+    case SegmentKind.Descendant:
+      return iterateDescendantSegment(segment, nodes, context);
+    default:
+      throw new TypeError("Invalid SegmentKind: " + kind);
+  }
+}
+
+/**
+ * Lazily evaluates a child segment against the given nodes.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateChildSegment(
+  segment: ChildSegment,
+  nodes: Iterable<Node>,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  let count = 0;
+  for (const node of nodes) {
+    visitQueryNode(context);
+    for (const selector of segment.selectors) {
+      for (const child of iterateSelector(selector, node, context)) {
+        count += 1;
+        checkQueryOutput(context, count);
+        yield child;
+      }
+    }
+  }
+}
+
+/**
+ * Lazily evaluates a descendant segment against the given nodes.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateDescendantSegment(
+  segment: DescendantSegment,
+  nodes: Iterable<Node>,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  if (segment.selectors.length === 0) {
+    return;
+  }
+  let count = 0;
+  for (const node of nodes) {
+    visitQueryNode(context);
+    for (const selector of segment.selectors) {
+      for (const child of iterateSelector(selector, node, context)) {
+        count += 1;
+        checkQueryOutput(context, count);
+        yield child;
+      }
+    }
+    const path = getQueryNodePath(context, node);
+    const ancestors =
+      context.cycleMode !== undefined ? new Map([[node, path]]) : undefined;
+    for (const descendant of iterateDescendants(
+      node,
+      context,
+      1,
+      path,
+      ancestors,
+    )) {
+      for (const selector of segment.selectors) {
+        for (const child of iterateSelector(selector, descendant, context)) {
+          count += 1;
+          checkQueryOutput(context, count);
+          yield child;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Lazily evaluates a selector against the given node.
+ *
+ * @category Iterate
+ */
+export function iterateSelector(
+  selector: Selector,
+  node: Node,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  const kind = selector.kind;
+  switch (kind) {
+    case SelectorKind.Name:
+      return iterateNameSelector(selector, node, context);
+    case SelectorKind.Wildcard:
+      return iterateWildcardSelector(selector, node, context);
+    case SelectorKind.Index:
+      return iterateIndexSelector(selector, node, context);
+    case SelectorKind.Slice:
+      return iterateSliceSelector(selector, node, context);
+    case SelectorKind.Filter:
+      return iterateFilterSelector(selector, node, context);
+    default:
+      throw new TypeError("Invalid SelectorKind: " + kind);
+  }
+}
+
+/**
+ * Lazily evaluates a name selector against the given node.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateNameSelector(
+  selector: NameSelector,
+  node: Node,
+  context?: QueryContext,
+): Generator<Node, void, undefined> {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const child = adapter.child(node, selector.name);
+  if (child !== undefined) {
+    yield child;
+  }
+}
+
+/**
+ * Lazily evaluates a wildcard selector against the given node.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateWildcardSelector(
+  selector: WildcardSelector,
+  node: Node,
+  context?: QueryContext,
+): Generator<Node, void, undefined> {
+  yield* iterateChildren(node, context?.nodeAdapter ?? jsonNodeAdapter);
+}
+
+/**
+ * Lazily evaluates an index selector against the given node.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateIndexSelector(
+  selector: IndexSelector,
+  node: Node,
+  context?: QueryContext,
+): Generator<Node, void, undefined> {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  let index = selector.index;
+  if (index < 0) {
+    index += getArrayLength(node, adapter);
+  }
+
+  const child =
+    index >= 0 && adapter.isArray(node) ?
+      adapter.child(node, index)
+    : undefined;
+  if (child !== undefined) {
+    yield child;
+  }
+}
+
+/**
+ * Lazily evaluates a slice selector against the given node.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateSliceSelector(
+  selector: SliceSelector,
+  node: Node,
+  context?: QueryContext,
+): Generator<Node, void, undefined> {
+  const adapter = context?.nodeAdapter ?? jsonNodeAdapter;
+  const len = getArrayLength(node, adapter);
+  const step = len !== 0 ? (selector.step ?? 1) : 0;
+
+  if (step > 0) {
+    let start = selector.start ?? 0;
+    let end = selector.end ?? len;
+
+    start = start >= 0 ? start : len + start;
+    end = end >= 0 ? end : len + end;
+
+    const lower = Math.min(Math.max(start, 0), len);
+    const upper = Math.min(Math.max(end, 0), len);
+    for (let i = lower; i < upper; i += step) {
+      yield adapter.child(node, i);
+    }
+  } else if (step < 0) {
+    let start = selector.start ?? len - 1;
+    let end = selector.end ?? -len - 1;
+
+    start = start >= 0 ? start : len + start;
+    end = end >= 0 ? end : len + end;
+
+    const upper = Math.min(Math.max(start, -1), len - 1);
+    const lower = Math.min(Math.max(end, -1), len - 1);
+    for (let i = upper; i > lower; i += step) {
+      yield adapter.child(node, i);
+    }
+  }
+}
+
+/**
+ * Lazily evaluates a filter selector against the given node.
+ *
+ * @category Iterate
+ * @internal
+ */
+export function* iterateFilterSelector(
+  selector: FilterSelector,
+  node: Node,
+  context: QueryContext,
+): Generator<Node, void, undefined> {
+  for (const child of iterateChildren(node, context.nodeAdapter)) {
+    visitQueryNode(context);
+    if (evaluateExpression(selector.expression, child, context)) {
+      yield child;
+    }
+  }
+}
+
+/**
+ * Lazily yields the children of a node, in document order.
+ *
+ * @category Iterate
+ * @internal
+ */
+function* iterateChildren(
+  node: Node,
+  adapter: NodeAdapter,
+): Generator<Node, void, undefined> {
+  if (adapter.isArray(node)) {
+    const len = getArrayLength(node, adapter);
+    for (let i = 0; i < len; i += 1) {
+      yield adapter.child(node, i);
+    }
+  } else if (adapter.isObject(node)) {
+    for (const name of adapter.keys(node)) {
+      yield adapter.child(node, name);
+    }
+  }
+}
+
+/**
+ * Lazily yields the descendants of a node, with each node
+ * preceding its own descendants.
+ *
+ * @category Iterate
+ * @internal
+ */
+function* iterateDescendants(
+  node: Node,
+  context: QueryContext,
+  depth: number,
+  path: string,
+  ancestors: Map<Node, string> | undefined,
+): Generator<Node, void, undefined> {
+  const adapter = context.nodeAdapter;
+  if (adapter.isArray(node)) {
+    const len = getArrayLength(node, adapter);
+    for (let i = 0; i < len; i += 1) {
+      const child = adapter.child(node, i);
+      checkQueryDepth(context, depth);
+      visitQueryNode(context);
+      if (ancestors === undefined) {
+        yield child;
+        yield* iterateDescendants(child, context, depth + 1, path, undefined);
+        continue;
+      }
+      const childPath = path + "[" + String(i) + "]";
+      if (enterQueryNode(context, child, childPath, ancestors)) {
+        yield child;
+        yield* iterateDescendants(
+          child,
+          context,
+          depth + 1,
+          childPath,
+          ancestors,
+        );
+        ancestors.delete(child);
+      }
+    }
+  } else if (adapter.isObject(node)) {
+    for (const name of adapter.keys(node)) {
+      const child = adapter.child(node, name);
+      checkQueryDepth(context, depth);
+      visitQueryNode(context);
+      if (ancestors === undefined) {
+        yield child;
+        yield* iterateDescendants(child, context, depth + 1, path, undefined);
+        continue;
+      }
+      const childPath = path + "[" + formatNormalizedName(name) + "]";
+      if (enterQueryNode(context, child, childPath, ancestors)) {
+        yield child;
+        yield* iterateDescendants(
+          child,
+          context,
+          depth + 1,
+          childPath,
+          ancestors,
+        );
+        ancestors.delete(child);
+      }
+    }
+  }
+}
@@ -1,5 +1,9 @@
-export type { QueryErrorOptions } from "./error.ts";
-export { QueryError } from "./error.ts";
+export type {
+  QueryErrorOptions,
+  QueryErrorDetails,
+  QueryLimitErrorOptions,
+} from "./error.ts";
+export { QueryErrorCode, QueryError, QueryLimitError } from "./error.ts";
 
 export type { Query } from "./query.ts";
 export { createQuery, isSingularQuery } from "./query.ts";
@@ -32,6 +36,7 @@ export {
 } from "./selector.ts";
 
 export type {
+  DeclaredTypeName,
   ValueType,
   LogicalType,
   NodesType,
@@ -75,6 +80,38 @@ export {
   intrinsicFunctions,
 } from "./function.ts";
 
+export type { IRegexpMatcher, RegexpCache } from "./iregexp.ts";
+export {
+  createRegexpCache,
+  defaultRegexpCache,
+  translateIRegexp,
+  tryTranslateIRegexp,
+  isIRegexp,
+  compileIRegexp,
+  tryCompileIRegexp,
+  compileSafeIRegexp,
+  tryCompileSafeIRegexp,
+} from "./iregexp.ts";
+
+export type { SourceSpan, SyntaxNode } from "./span.ts";
+
+export type { QueryDiagnostic, QueryParseResult } from "./diagnostic.ts";
+export { DiagnosticSeverity, createQueryDiagnostic } from "./diagnostic.ts";
+
+export type { LocatedNode, LocatedNodeList } from "./location.ts";
+export { createLocatedNode } from "./location.ts";
+
+export type { NodeAdapter } from "./adapter.ts";
+export { jsonNodeAdapter } from "./adapter.ts";
+
+export type { QueryLimits, ParseLimits } from "./limit.ts";
+export { defaultMaxNesting } from "./limit.ts";
+
+export { CycleMode } from "./cycle.ts";
+
+export type { QueryCache } from "./cache.ts";
+export { createQueryCache } from "./cache.ts";
+
 export type { QueryContext, QueryContextOptions } from "./context.ts";
 export {
   QueryScope,
@@ -86,8 +123,13 @@ export {
 export {
   parseQuery,
   tryParseQuery,
+  parseQueryWithDiagnostics,
   parseImplicitQuery,
   tryParseImplicitQuery,
+  parseNormalizedPath,
+  tryParseNormalizedPath,
+  parseJsonPointer,
+  tryParseJsonPointer,
   parseSegment,
   tryParseSegment,
   parseSelector,
@@ -101,6 +143,8 @@ export {
 
 export {
   formatQuery,
+  formatNormalizedPath,
+  formatJsonPointer,
   formatSegment,
   formatChildSegment,
   formatDescendantSegment,
@@ -120,6 +164,9 @@ export {
   formatFunctionExpression,
 } from "./format.ts";
 
+export type { QueryReportOptions } from "./report.ts";
+export { formatQueryError, formatQueryDiagnostic } from "./report.ts";
+
 export {
   evaluateQuery,
   evaluateSegment,
@@ -131,6 +178,10 @@ export {
   evaluateIndexSelector,
   evaluateSliceSelector,
   evaluateFilterSelector,
+  evaluateQueryLocated,
+  evaluateQueryPointers,
+  evaluateSegmentLocated,
+  evaluateSelectorLocated,
   evaluateExpression,
   evaluateOrExpression,
   evaluateAndExpression,
@@ -143,3 +194,77 @@ export {
   evaluateQueryExpression,
   evaluateFunctionExpression,
 } from "./evaluate.ts";
+
+export type {
+  CompiledQuery,
+  CompiledLocatedQuery,
+  CompiledSegment,
+  CompiledSelector,
+  CompiledExpression,
+} from "./compile.ts";
+export {
+  compileQuery,
+  compileQueryLocated,
+  compileSegment,
+  compileChildSegment,
+  compileDescendantSegment,
+  compileSelector,
+  compileNameSelector,
+  compileWildcardSelector,
+  compileIndexSelector,
+  compileSliceSelector,
+  compileFilterSelector,
+  compileExpression,
+  compileOrExpression,
+  compileAndExpression,
+  compileComparisonExpression,
+  compileNotExpression,
+  compileQueryTestExpression,
+  compileFunctionTestExpression,
+} from "./compile.ts";
+
+export {
+  iterateQuery,
+  firstQuery,
+  existsQuery,
+  takeQuery,
+  iterateSegment,
+  iterateChildSegment,
+  iterateDescendantSegment,
+  iterateSelector,
+  iterateNameSelector,
+  iterateWildcardSelector,
+  iterateIndexSelector,
+  iterateSliceSelector,
+  iterateFilterSelector,
+} from "./iterate.ts";
+
+export type { NodeUpdater } from "./mutate.ts";
+export { setQuery, deleteQuery, updateQuery } from "./mutate.ts";
+
+export type {
+  JsonPatchOperation,
+  JsonPatchAddOperation,
+  JsonPatchRemoveOperation,
+  JsonPatchReplaceOperation,
+} from "./patch.ts";
+export { diffQuery } from "./patch.ts";
+
+export type { AsyncNodeAdapter } from "./async.ts";
+export {
+  createAsyncNodeAdapter,
+  evaluateQueryAsync,
+  evaluateSegmentAsync,
+  evaluateSelectorAsync,
+  evaluateExpressionAsync,
+} from "./async.ts";
+
+export type { JsonSource } from "./stream.ts";
+export { streamQuery } from "./stream.ts";
+
+export type {
+  NdjsonQueryOptions,
+  NdjsonRecord,
+  LocatedNdjsonRecord,
+} from "./ndjson.ts";
+export { queryNdjson, queryNdjsonLocated } from "./ndjson.ts";
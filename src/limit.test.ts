@@ -0,0 +1,245 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  QueryError,
+  QueryLimitError,
+  defaultMaxNesting,
+  parseQuery,
+  parseExpression,
+  evaluateQuery,
+  evaluateQueryLocated,
+  compileQuery,
+  iterateQuery,
+  firstQuery,
+  jsonNodeAdapter,
+} from "tool-query";
+
+void suite("Evaluation limits", () => {
+  const root = {
+    a: [1, 2, 3, 4, 5],
+    b: { c: { d: { e: 6 } } },
+  };
+
+  const isLimitError = (limit: string) => (error: unknown) =>
+    error instanceof QueryLimitError &&
+    error instanceof QueryError &&
+    error.limit === limit;
+
+  void test("should evaluate within limits", () => {
+    const queryLimits = { maxNodes: 100, maxDepth: 10, maxOutput: 100 };
+    assert.deepEqual(evaluateQuery("$..e", root, { queryLimits }), [6]);
+    assert.deepEqual(compileQuery("$..e", { queryLimits })(root), [6]);
+    assert.deepEqual([...iterateQuery("$..e", root, { queryLimits })], [6]);
+  });
+
+  void test("should limit the number of visited nodes", () => {
+    const queryLimits = { maxNodes: 5 };
+    assert.throws(
+      () => evaluateQuery("$..*", root, { queryLimits }),
+      isLimitError("maxNodes"),
+    );
+    assert.throws(
+      () => evaluateQuery("$.a[?@ > 1]", root, { queryLimits }),
+      isLimitError("maxNodes"),
+    );
+    assert.throws(
+      () => evaluateQueryLocated("$..*", root, { queryLimits }),
+      isLimitError("maxNodes"),
+    );
+    assert.throws(
+      () => compileQuery("$..*", { queryLimits })(root),
+      isLimitError("maxNodes"),
+    );
+    assert.throws(
+      () => [...iterateQuery("$..*", root, { queryLimits })],
+      isLimitError("maxNodes"),
+    );
+  });
+
+  void test("should count visited nodes per evaluation", () => {
+    const queryLimits = { maxNodes: 8 };
+    const query = compileQuery("$.a[?@ > 1]", { queryLimits });
+    assert.deepEqual(query(root), [2, 3, 4, 5]);
+    assert.deepEqual(query(root), [2, 3, 4, 5]);
+  });
+
+  void test("should stop lazy evaluation before the node limit", () => {
+    const queryLimits = { maxNodes: 3 };
+    assert.equal(firstQuery("$..*", root, { queryLimits }), root.a);
+  });
+
+  void test("should limit the depth of descendant traversal", () => {
+    const queryLimits = { maxDepth: 3 };
+    assert.deepEqual(evaluateQuery("$.b..d", root, { queryLimits }), [
+      root.b.c.d,
+    ]);
+    assert.throws(
+      () => evaluateQuery("$..e", root, { queryLimits }),
+      isLimitError("maxDepth"),
+    );
+    assert.throws(
+      () => evaluateQueryLocated("$..e", root, { queryLimits }),
+      isLimitError("maxDepth"),
+    );
+    assert.throws(
+      () => compileQuery("$..e", { queryLimits })(root),
+      isLimitError("maxDepth"),
+    );
+    assert.throws(
+      () => [...iterateQuery("$..e", root, { queryLimits })],
+      isLimitError("maxDepth"),
+    );
+  });
+
+  void test("should limit the size of segment output", () => {
+    const queryLimits = { maxOutput: 4 };
+    assert.deepEqual(
+      evaluateQuery("$.a[1:]", root, { queryLimits }),
+      [2, 3, 4, 5],
+    );
+    assert.throws(
+      () => evaluateQuery("$.a[*]", root, { queryLimits }),
+      isLimitError("maxOutput"),
+    );
+    assert.throws(
+      () => evaluateQueryLocated("$.a[*]", root, { queryLimits }),
+      isLimitError("maxOutput"),
+    );
+    assert.throws(
+      () => compileQuery("$.a[*]", { queryLimits })(root),
+      isLimitError("maxOutput"),
+    );
+    assert.throws(
+      () => [...iterateQuery("$.a[*]", root, { queryLimits })],
+      isLimitError("maxOutput"),
+    );
+  });
+
+  void test("should stop building segment output at the limit", () => {
+    const queryLimits = { maxOutput: 2 };
+    const selected: (string | number)[] = [];
+    const nodeAdapter = {
+      ...jsonNodeAdapter,
+      child(node: unknown, key: string | number) {
+        selected.push(key);
+        return jsonNodeAdapter.child(node, key);
+      },
+    };
+    assert.throws(
+      () => evaluateQuery("$.a[0:5]", root, { queryLimits, nodeAdapter }),
+      isLimitError("maxOutput"),
+    );
+    assert.deepEqual(selected, ["a", 0, 1, 2]);
+
+    selected.length = 0;
+    assert.throws(
+      () => compileQuery("$.a[0:5]", { queryLimits, nodeAdapter })(root),
+      isLimitError("maxOutput"),
+    );
+    assert.deepEqual(selected, ["a", 0, 1, 2]);
+  });
+
+  void test("should abandon evaluation after the deadline", () => {
+    const queryLimits = { deadline: Date.now() - 1 };
+    assert.throws(
+      () => evaluateQuery("$.a", root, { queryLimits }),
+      isLimitError("deadline"),
+    );
+    assert.throws(
+      () => compileQuery("$.a", { queryLimits })(root),
+      isLimitError("deadline"),
+    );
+  });
+
+  void test("should abandon evaluation when aborted", () => {
+    const controller = new AbortController();
+    const queryLimits = { signal: controller.signal };
+    assert.deepEqual(evaluateQuery("$.a[0]", root, { queryLimits }), [1]);
+    controller.abort();
+    assert.throws(
+      () => evaluateQuery("$.a[0]", root, { queryLimits }),
+      isLimitError("signal"),
+    );
+    assert.throws(
+      () => [...iterateQuery("$.a[0]", root, { queryLimits })],
+      isLimitError("signal"),
+    );
+  });
+
+  void test("should check the abort signal between lazily selected nodes", () => {
+    const controller = new AbortController();
+    const queryLimits = { signal: controller.signal };
+    const list = Array.from({ length: 4096 }, (_, i) => i);
+    let calls = 0;
+    const iterator = iterateQuery("$[?@ >= 0]", list, { queryLimits });
+    assert.throws(() => {
+      for (const _ of iterator) {
+        calls += 1;
+        if (calls === 10) {
+          controller.abort();
+        }
+      }
+    }, isLimitError("signal"));
+    assert.equal(calls, 10);
+  });
+});
+
+void suite("Parse limits", () => {
+  const isLimitError = (limit: string, offset: number) => (error: unknown) =>
+    error instanceof QueryLimitError &&
+    error instanceof QueryError &&
+    error.limit === limit &&
+    error.offset === offset;
+
+  void test("should limit the nesting depth of expressions", () => {
+    const parseLimits = { maxNesting: 3 };
+    assert.doesNotThrow(() => parseQuery("$[?((@.a))]", { parseLimits }));
+    assert.throws(
+      () => parseQuery("$[?(((@.a)))]", { parseLimits }),
+      isLimitError("maxNesting", 6),
+    );
+    assert.throws(
+      () => parseQuery("$[?@[?@[?@[?@.a]]]]", { parseLimits }),
+      isLimitError("maxNesting", 12),
+    );
+    assert.throws(
+      () => parseQuery("$[?length(length(length(@)))]", { parseLimits }),
+      isLimitError("maxNesting", 24),
+    );
+  });
+
+  void test("should reject deeply nested expressions by default", () => {
+    const depth = 100000;
+    const input = "$[?" + "(".repeat(depth) + "@" + ")".repeat(depth) + "]";
+    assert.throws(
+      () => parseQuery(input),
+      isLimitError("maxNesting", 3 + defaultMaxNesting),
+    );
+  });
+
+  void test("should limit the length of input strings", () => {
+    const parseLimits = { maxLength: 8 };
+    assert.doesNotThrow(() => parseQuery("$.abcdef", { parseLimits }));
+    assert.throws(
+      () => parseQuery("$.abcdefg", { parseLimits }),
+      isLimitError("maxLength", 8),
+    );
+    assert.throws(
+      () => parseExpression("@.abcdefg", { parseLimits }),
+      isLimitError("maxLength", 8),
+    );
+  });
+
+  void test("should limit the number of segments in a query", () => {
+    const parseLimits = { maxSegments: 2 };
+    assert.doesNotThrow(() => parseQuery("$.a[?@.b.c]", { parseLimits }));
+    assert.throws(
+      () => parseQuery("$.a.b .c", { parseLimits }),
+      isLimitError("maxSegments", 6),
+    );
+    assert.throws(
+      () => parseQuery("$[?@.a.b.c]", { parseLimits }),
+      isLimitError("maxSegments", 8),
+    );
+  });
+});
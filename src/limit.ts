@@ -0,0 +1,170 @@
+import { QueryLimitError } from "./error.ts";
+import type { QueryContext } from "./context.ts";
+
+/**
+ * Resource limits that bound the work done by a single JSONPath
+ * query evaluation, including the evaluation of any subqueries.
+ *
+ * @category Limit
+ */
+export interface QueryLimits {
+  /**
+   * The maximum number of nodes to visit.
+   */
+  readonly maxNodes?: number | undefined;
+
+  /**
+   * The maximum depth below its input nodes that a descendant segment
+   * may traverse, where the children of an input node have depth 1.
+   */
+  readonly maxDepth?: number | undefined;
+
+  /**
+   * The maximum number of nodes in the nodelist produced by any segment.
+   */
+  readonly maxOutput?: number | undefined;
+
+  /**
+   * The time, in milliseconds since the epoch, after which
+   * evaluation is abandoned.
+   */
+  readonly deadline?: number | undefined;
+
+  /**
+   * A signal that abandons evaluation when aborted.
+   */
+  readonly signal?: AbortSignal | undefined;
+}
+
+/**
+ * Limits that bound the size and complexity of JSONPath query strings
+ * accepted by the parser.
+ *
+ * @category Limit
+ */
+export interface ParseLimits {
+  /**
+   * The maximum nesting depth of filter, parenthesized and function
+   * argument expressions. Defaults to `defaultMaxNesting`.
+   */
+  readonly maxNesting?: number | undefined;
+
+  /**
+   * The maximum length of an input string, in UTF-16 code units.
+   */
+  readonly maxLength?: number | undefined;
+
+  /**
+   * The maximum number of segments in any one query.
+   */
+  readonly maxSegments?: number | undefined;
+}
+
+/**
+ * The maximum expression nesting depth accepted by the parser when no
+ * `maxNesting` limit is configured, which keeps deeply nested input
+ * from overflowing the call stack.
+ *
+ * @category Limit
+ */
+export const defaultMaxNesting = 128;
+
+/**
+ * The number of node visits between checks of the evaluation deadline
+ * and abort signal, which must be a power of two.
+ *
+ * @internal
+ */
+const interruptInterval = 1024;
+
+/**
+ * Records the visit of a node, throwing if the visit exceeds the node
+ * budget, or if evaluation has been interrupted.
+ *
+ * @throws QueryLimitError if a limit is exceeded.
+ * @category Limit
+ * @internal
+ */
+export function visitQueryNode(context: QueryContext): void {
+  const limits = context.queryLimits;
+  if (limits === undefined) {
+    return;
+  }
+
+  const nodeCount = context.queryNodeCount + 1;
+  context.queryNodeCount = nodeCount;
+  if (limits.maxNodes !== undefined && nodeCount > limits.maxNodes) {
+    throw new QueryLimitError(
+      "Query visited more than " + limits.maxNodes + " nodes",
+      { limit: "maxNodes" },
+    );
+  }
+  if ((nodeCount & (interruptInterval - 1)) === 0) {
+    checkQueryInterrupt(context);
+  }
+}
+
+/**
+ * Throws if descendant traversal has reached a depth beyond the limit.
+ *
+ * @throws QueryLimitError if the depth limit is exceeded.
+ * @category Limit
+ * @internal
+ */
+export function checkQueryDepth(context: QueryContext, depth: number): void {
+  const maxDepth = context.queryLimits?.maxDepth;
+  if (maxDepth !== undefined && depth > maxDepth) {
+    throw new QueryLimitError(
+      "Query descended more than " + maxDepth + " levels",
+      { limit: "maxDepth" },
+    );
+  }
+}
+
+/**
+ * Throws if a nodelist produced by a segment exceeds the output limit.
+ * Called as each node is appended, so that oversized nodelists are
+ * abandoned before they're fully built.
+ *
+ * @throws QueryLimitError if the output limit is exceeded.
+ * @category Limit
+ * @internal
+ */
+export function checkQueryOutput(
+  context: QueryContext | undefined,
+  length: number,
+): void {
+  const maxOutput = context?.queryLimits?.maxOutput;
+  if (maxOutput !== undefined && length > maxOutput) {
+    throw new QueryLimitError(
+      "Query produced more than " + maxOutput + " nodes",
+      { limit: "maxOutput" },
+    );
+  }
+}
+
+/**
+ * Throws if the evaluation deadline has passed,
+ * or if the abort signal has been aborted.
+ *
+ * @throws QueryLimitError if evaluation has been interrupted.
+ * @category Limit
+ * @internal
+ */
+export function checkQueryInterrupt(context: QueryContext): void {
+  const limits = context.queryLimits;
+  if (limits === undefined) {
+    return;
+  }
+
+  if (limits.signal?.aborted === true) {
+    throw new QueryLimitError("Query evaluation aborted", {
+      limit: "signal",
+    });
+  }
+  if (limits.deadline !== undefined && Date.now() > limits.deadline) {
+    throw new QueryLimitError("Query evaluation deadline exceeded", {
+      limit: "deadline",
+    });
+  }
+}
@@ -0,0 +1,251 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  QueryError,
+  createQuery,
+  createChildSegment,
+  createNameSelector,
+  parseQuery,
+  isSingularQuery,
+  parseNormalizedPath,
+  formatNormalizedPath,
+  parseJsonPointer,
+  formatJsonPointer,
+  evaluateQuery,
+  evaluateQueryLocated,
+  evaluateQueryPointers,
+} from "tool-query";
+
+void suite("Located queries", () => {
+  const value = {
+    store: {
+      book: [
+        { title: "Sayings of the Century", price: 8.95 },
+        { title: "Moby Dick", isbn: "0-553-21311-3", price: 8.99 },
+        { title: "The Lord of the Rings", price: 22.99 },
+      ],
+      bicycle: { color: "red", price: 399 },
+    },
+  } as const;
+
+  void test("should locate the root node", () => {
+    assert.deepEqual(evaluateQueryLocated("$", value), [
+      { value, path: "$", keys: [] },
+    ]);
+  });
+
+  void test("should locate child segments", () => {
+    assert.deepEqual(evaluateQueryLocated("$.store.book[0].title", value), [
+      {
+        value: "Sayings of the Century",
+        path: "$['store']['book'][0]['title']",
+        keys: ["store", "book", 0, "title"],
+      },
+    ]);
+    assert.deepEqual(evaluateQueryLocated("$.store.book[-1].price", value), [
+      {
+        value: 22.99,
+        path: "$['store']['book'][2]['price']",
+        keys: ["store", "book", 2, "price"],
+      },
+    ]);
+    assert.deepEqual(evaluateQueryLocated("$.store.book[::-2].price", value), [
+      {
+        value: 22.99,
+        path: "$['store']['book'][2]['price']",
+        keys: ["store", "book", 2, "price"],
+      },
+      {
+        value: 8.95,
+        path: "$['store']['book'][0]['price']",
+        keys: ["store", "book", 0, "price"],
+      },
+    ]);
+    assert.deepEqual(evaluateQueryLocated("$.store.bicycle.*", value), [
+      {
+        value: "red",
+        path: "$['store']['bicycle']['color']",
+        keys: ["store", "bicycle", "color"],
+      },
+      {
+        value: 399,
+        path: "$['store']['bicycle']['price']",
+        keys: ["store", "bicycle", "price"],
+      },
+    ]);
+    assert.deepEqual(evaluateQueryLocated("$.store.book[?@.isbn]", value), [
+      {
+        value: value.store.book[1],
+        path: "$['store']['book'][1]",
+        keys: ["store", "book", 1],
+      },
+    ]);
+  });
+
+  void test("should locate descendant segments", () => {
+    assert.deepEqual(evaluateQueryLocated("$..price", value), [
+      {
+        value: 8.95,
+        path: "$['store']['book'][0]['price']",
+        keys: ["store", "book", 0, "price"],
+      },
+      {
+        value: 8.99,
+        path: "$['store']['book'][1]['price']",
+        keys: ["store", "book", 1, "price"],
+      },
+      {
+        value: 22.99,
+        path: "$['store']['book'][2]['price']",
+        keys: ["store", "book", 2, "price"],
+      },
+      {
+        value: 399,
+        path: "$['store']['bicycle']['price']",
+        keys: ["store", "bicycle", "price"],
+      },
+    ]);
+    assert.deepEqual(
+      evaluateQueryLocated("$..*", value).map((node) => node.value),
+      evaluateQuery("$..*", value),
+    );
+  });
+
+  void test("should escape member names in normalized paths", () => {
+    const value = { "'": { "\\": { "\u000b": { "\n": { "\u00e9": 1 } } } } };
+    assert.deepEqual(evaluateQueryLocated("$.*.*.*.*.*", value), [
+      {
+        value: 1,
+        path: "$['\\'']['\\\\']['\\u000b']['\\n']['\u00e9']",
+        keys: ["'", "\\", "\u000b", "\n", "\u00e9"],
+      },
+    ]);
+  });
+});
+
+void suite("Normalized paths", () => {
+  void test("should parse normalized paths", () => {
+    assert.deepEqual(parseNormalizedPath("$"), parseQuery("$"));
+    assert.deepEqual(
+      parseNormalizedPath("$['store']['book'][0]"),
+      parseQuery("$.store.book[0]"),
+    );
+    assert.deepEqual(
+      parseNormalizedPath("$['\\'']['\\\\']['\\u000b']['\\n']['\u00e9']"),
+      createQuery(
+        ["'", "\\", "\u000b", "\n", "\u00e9"].map((name) =>
+          createChildSegment([createNameSelector(name)]),
+        ),
+      ),
+    );
+  });
+
+  void test("should reject non-normalized paths", () => {
+    assert.throws(() => parseNormalizedPath(""), QueryError);
+    assert.throws(() => parseNormalizedPath("$.store"), QueryError);
+    assert.throws(() => parseNormalizedPath('$["store"]'), QueryError);
+    assert.throws(() => parseNormalizedPath("$[ 'store' ]"), QueryError);
+    assert.throws(() => parseNormalizedPath("$[-1]"), QueryError);
+    assert.throws(() => parseNormalizedPath("$[01]"), QueryError);
+    assert.throws(() => parseNormalizedPath("$[*]"), QueryError);
+    assert.throws(() => parseNormalizedPath("$['a'"), QueryError);
+    assert.throws(() => parseNormalizedPath("$['\\/']"), QueryError);
+    assert.throws(() => parseNormalizedPath("$['\\u000a']"), QueryError);
+    assert.throws(() => parseNormalizedPath("$['\\u001F']"), QueryError);
+    assert.throws(() => parseNormalizedPath("$['\\u0020']"), QueryError);
+  });
+
+  void test("should format normalized paths", () => {
+    assert.equal(formatNormalizedPath(parseQuery("$")), "$");
+    assert.equal(
+      formatNormalizedPath(parseQuery("$.store.book[0]")),
+      "$['store']['book'][0]",
+    );
+    assert.equal(formatNormalizedPath(parseQuery('$["a/b"]')), "$['a/b']");
+    assert.equal(
+      formatNormalizedPath(
+        createQuery([createChildSegment([createNameSelector("\u001f")])]),
+      ),
+      "$['\\u001f']",
+    );
+    assert.throws(() => formatNormalizedPath(parseQuery("$[-1]")), TypeError);
+    assert.throws(() => formatNormalizedPath(parseQuery("$[0, 1]")), TypeError);
+    assert.throws(() => formatNormalizedPath(parseQuery("$..a")), TypeError);
+  });
+
+  void test("should round-trip located paths", () => {
+    const value = { a: [{ "b'c": 1 }, { "\n": 2 }] } as const;
+    for (const node of evaluateQueryLocated("$..*", value)) {
+      assert.equal(
+        formatNormalizedPath(parseNormalizedPath(node.path)),
+        node.path,
+      );
+    }
+  });
+});
+
+void suite("JSON Pointers", () => {
+  void test("should parse JSON Pointers", () => {
+    assert.deepEqual(parseJsonPointer(""), parseQuery("$"));
+    assert.deepEqual(parseJsonPointer("/foo"), parseQuery("$['foo']"));
+    assert.deepEqual(parseJsonPointer("/foo/0"), parseQuery("$['foo'][0]"));
+    assert.deepEqual(parseJsonPointer("/"), parseQuery("$['']"));
+    assert.deepEqual(parseJsonPointer("/a~1b"), parseQuery("$['a/b']"));
+    assert.deepEqual(parseJsonPointer("/m~0n"), parseQuery("$['m~n']"));
+    assert.deepEqual(parseJsonPointer("/~01"), parseQuery("$['~1']"));
+    assert.deepEqual(parseJsonPointer("/01"), parseQuery("$['01']"));
+    assert.deepEqual(parseJsonPointer("/-"), parseQuery("$['-']"));
+  });
+
+  void test("should parse JSON Pointers as singular queries", () => {
+    assert.ok(isSingularQuery(parseJsonPointer("/0")));
+    const value = { foo: ["bar"], "200": [{ "1": 2 }] } as const;
+    assert.deepEqual(
+      parseJsonPointer("/foo/0", value),
+      parseQuery("$['foo'][0]"),
+    );
+    assert.deepEqual(
+      parseJsonPointer("/200/0/1", value),
+      parseQuery("$['200'][0]['1']"),
+    );
+    assert.deepEqual(
+      parseJsonPointer("/foo/1/2", value),
+      parseQuery("$['foo'][1]['2']"),
+    );
+  });
+
+  void test("should reject invalid JSON Pointers", () => {
+    assert.throws(() => parseJsonPointer("foo"), QueryError);
+    assert.throws(() => parseJsonPointer("/~2"), QueryError);
+    assert.throws(() => parseJsonPointer("/~"), QueryError);
+  });
+
+  void test("should evaluate parsed JSON Pointers", () => {
+    const value = { foo: ["bar", "baz"], "200": { "": 0 } } as const;
+    assert.deepEqual(evaluateQuery(parseJsonPointer("/foo/1"), value), ["baz"]);
+    assert.deepEqual(evaluateQuery(parseJsonPointer("/200/", value), value), [
+      0,
+    ]);
+  });
+
+  void test("should format JSON Pointers", () => {
+    assert.equal(formatJsonPointer(parseQuery("$")), "");
+    assert.equal(formatJsonPointer(parseQuery("$.foo[0]")), "/foo/0");
+    assert.equal(
+      formatJsonPointer(parseQuery("$['a/b']['m~n']")),
+      "/a~1b/m~0n",
+    );
+    assert.equal(formatJsonPointer(parseJsonPointer("/foo/0")), "/foo/0");
+    assert.throws(() => formatJsonPointer(parseQuery("$[-1]")), TypeError);
+    assert.throws(() => formatJsonPointer(parseQuery("$.*")), TypeError);
+    assert.throws(() => formatJsonPointer(parseQuery("$..foo")), TypeError);
+  });
+
+  void test("should evaluate query pointers", () => {
+    const value = { a: [{ "b/c": 1 }, { "d~e": 2 }] } as const;
+    assert.deepEqual(evaluateQueryPointers("$.a.*.*", value), [
+      "/a/0/b~1c",
+      "/a/1/d~0e",
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import type { Node } from "tool-json";
+
+/**
+ * A node in the query argument, paired with the normalized path
+ * that uniquely identifies its location.
+ *
+ * @see [RFC 9535 §2.7](https://datatracker.ietf.org/doc/html/rfc9535#section-2.7)
+ * @category Location
+ */
+export interface LocatedNode {
+  /**
+   * The value of the node.
+   */
+  readonly value: Node;
+
+  /**
+   * The normalized path of the node, such as `$['store']['book'][0]`.
+   */
+  readonly path: string;
+
+  /**
+   * The member names and array indices that lead from the root node
+   * to the node, such as `["store", "book", 0]`.
+   */
+  readonly keys: readonly (string | number)[];
+}
+
+/**
+ * A list of nodes paired with their normalized paths.
+ *
+ * @category Location
+ */
+export type LocatedNodeList = LocatedNode[];
+
+/**
+ * Creates a located node.
+ *
+ * @category Location
+ */
+export function createLocatedNode(
+  value: Node,
+  path: string,
+  keys: readonly (string | number)[],
+): LocatedNode {
+  return { value, path, keys };
+}
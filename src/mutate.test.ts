@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { setQuery, deleteQuery, updateQuery } from "tool-query";
+
+void suite("Set queries", () => {
+  void test("should set selected nodes", () => {
+    const value = { a: { b: 1 }, c: [1, 2, 3] };
+    assert.equal(setQuery("$.a.b", value, 2), value);
+    assert.deepEqual(value, { a: { b: 2 }, c: [1, 2, 3] });
+
+    setQuery("$.c[-1, 0]", value, 0);
+    assert.deepEqual(value, { a: { b: 2 }, c: [0, 2, 0] });
+
+    setQuery("$.c[?@ == 0]", value, 4);
+    assert.deepEqual(value, { a: { b: 2 }, c: [4, 2, 4] });
+  });
+
+  void test("should not create missing nodes", () => {
+    const value = { a: [1] };
+    setQuery("$.b", value, 1);
+    setQuery("$.a[1]", value, 1);
+    assert.deepEqual(value, { a: [1] });
+  });
+
+  void test("should apply update functions once per node", () => {
+    const value = { a: [1, 2], b: { c: 3 } };
+    const paths: string[] = [];
+    setQuery("$.a[0, 0, 1]", value, (node, path) => {
+      paths.push(path);
+      return (node as number) * 10;
+    });
+    assert.deepEqual(value, { a: [10, 20], b: { c: 3 } });
+    assert.deepEqual(paths, ["$['a'][1]", "$['a'][0]"]);
+  });
+
+  void test("should update descendants before their ancestors", () => {
+    const value = { a: { b: { c: 1 } } };
+    setQuery("$..*", value, (node) =>
+      typeof node === "number" ? node + 1 : { ...(node as object), seen: true },
+    );
+    assert.deepEqual(value, {
+      a: { b: { c: 2, seen: true }, seen: true },
+    });
+  });
+
+  void test("should replace the root node", () => {
+    assert.deepEqual(setQuery("$", { a: 1 }, [1]), [1]);
+  });
+});
+
+void suite("Delete queries", () => {
+  void test("should delete object members", () => {
+    const value = { a: 1, b: { password: "x", c: { password: "y" } } };
+    deleteQuery("$..password", value);
+    assert.deepEqual(value, { a: 1, b: { c: {} } });
+  });
+
+  void test("should delete array elements in descending index order", () => {
+    const value = [0, 1, 2, 3, 4, 5];
+    deleteQuery("$[0, 2, 4]", value);
+    assert.deepEqual(value, [1, 3, 5]);
+
+    const items = [{ a: 1 }, { a: 2 }, { a: 1 }, { a: 3 }];
+    deleteQuery("$[?@.a == 1]", items);
+    assert.deepEqual(items, [{ a: 2 }, { a: 3 }]);
+  });
+
+  void test("should delete slices and wildcards", () => {
+    const value = { a: [0, 1, 2, 3, 4], b: { c: 1, d: 2 } };
+    deleteQuery("$.a[1::2]", value);
+    deleteQuery("$.b.*", value);
+    assert.deepEqual(value, { a: [0, 2, 4], b: {} });
+  });
+
+  void test("should delete nested and overlapping nodes", () => {
+    const value = { a: [[1, 2], [3]], b: 4 };
+    deleteQuery("$..[0]", value);
+    assert.deepEqual(value, { a: [[]], b: 4 });
+  });
+
+  void test("should delete the root node", () => {
+    assert.equal(deleteQuery("$", { a: 1 }), undefined);
+  });
+});
+
+void suite("Update queries", () => {
+  void test("should copy containers on updated paths", () => {
+    const value = {
+      a: { b: [1, 2, 3], c: { d: 4 } },
+      e: { f: 5 },
+    };
+    const result = updateQuery(
+      "$.a.b[1]",
+      value,
+      (node) => (node as number) * 10,
+    );
+    assert.deepEqual(result, {
+      a: { b: [1, 20, 3], c: { d: 4 } },
+      e: { f: 5 },
+    });
+    assert.deepEqual(value.a.b, [1, 2, 3]);
+
+    assert.notEqual(result, value);
+    assert.notEqual(result.a, value.a);
+    assert.notEqual(result.a.b, value.a.b);
+    assert.equal(result.a.c, value.a.c);
+    assert.equal(result.e, value.e);
+  });
+
+  void test("should preserve identity when nothing changes", () => {
+    const value = { a: [1, 2], b: { c: 3 } } as const;
+    assert.equal(
+      updateQuery("$.z", value, () => 0),
+      value,
+    );
+    assert.equal(
+      updateQuery("$..*", value, (node) => node),
+      value,
+    );
+  });
+
+  void test("should copy each container at most once", () => {
+    const value = { items: [1, 2, 3, 4] } as const;
+    const result = updateQuery("$.items[?@ > 2]", value, () => 0);
+    assert.deepEqual(result, { items: [1, 2, 0, 0] });
+    assert.deepEqual(value, { items: [1, 2, 3, 4] });
+  });
+
+  void test("should update descendants before their ancestors", () => {
+    const value = { a: { b: 1 } } as const;
+    const result = updateQuery("$..*", value, (node) =>
+      typeof node === "number" ? node + 1 : { ...(node as object), seen: true },
+    );
+    assert.deepEqual(result, { a: { b: 2, seen: true } });
+    assert.deepEqual(value, { a: { b: 1 } });
+  });
+
+  void test("should replace the root node", () => {
+    const value = { a: 1 } as const;
+    assert.deepEqual(
+      updateQuery("$", value, () => [1]),
+      [1],
+    );
+    assert.deepEqual(value, { a: 1 });
+  });
+});
@@ -0,0 +1,255 @@
+import type { Node } from "tool-json";
+import { isArray, isObject } from "tool-json";
+import type { Query } from "./query.ts";
+import type { QueryContextOptions } from "./context.ts";
+import { evaluateQueryLocated } from "./evaluate.ts";
+
+/**
+ * A function that computes the replacement value of a node selected
+ * by a JSONPath query.
+ *
+ * @category Mutate
+ */
+export type NodeUpdater = (value: Node, path: string) => Node;
+
+/**
+ * A location in a JSON value, identified by the member names and
+ * array indices leading to it from the root node.
+ *
+ * @internal
+ */
+interface NodeTarget {
+  readonly path: string;
+  readonly keys: readonly (string | number)[];
+}
+
+/**
+ * Replaces every node selected by a JSONPath query in place, with the
+ * given value or with the result of calling the given function on the
+ * current value of each node. Nested nodes are replaced before their
+ * ancestors, and each node is replaced at most once.
+ *
+ * Returns the root node, or the replacement value of the root node
+ * if the query selects the root node itself.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Mutate
+ */
+export function setQuery(
+  query: Query | string,
+  root: Node,
+  updater: NodeUpdater,
+  options?: QueryContextOptions,
+): Node;
+
+export function setQuery(
+  query: Query | string,
+  root: Node,
+  value: Node,
+  options?: QueryContextOptions,
+): Node;
+
+export function setQuery(
+  query: Query | string,
+  root: Node,
+  value: Node | NodeUpdater,
+  options?: QueryContextOptions,
+): Node {
+  const updater =
+    typeof value === "function" ? (value as NodeUpdater) : undefined;
+
+  for (const target of locateTargets(query, root, options)) {
+    const keys = target.keys;
+    if (keys.length === 0) {
+      root = updater !== undefined ? updater(root, target.path) : value;
+      continue;
+    }
+
+    const parent = resolveParent(root, keys);
+    const key = keys[keys.length - 1]!;
+    if (!hasChild(parent, key)) {
+      continue;
+    }
+    const container = parent as { [key: string | number]: Node };
+    container[key] =
+      updater !== undefined ? updater(container[key], target.path) : value;
+  }
+  return root;
+}
+
+/**
+ * Removes every node selected by a JSONPath query in place. Array elements
+ * are removed in descending index order, so that removing one element does
+ * not shift the indices of other selected elements of the same array.
+ *
+ * Returns the root node, or `undefined` if the query selects the root
+ * node itself.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Mutate
+ */
+export function deleteQuery(
+  query: Query | string,
+  root: Node,
+  options?: QueryContextOptions,
+): Node | undefined {
+  for (const target of locateTargets(query, root, options)) {
+    const keys = target.keys;
+    if (keys.length === 0) {
+      return undefined;
+    }
+
+    const parent = resolveParent(root, keys);
+    const key = keys[keys.length - 1]!;
+    if (!hasChild(parent, key)) {
+      continue;
+    }
+    if (isArray(parent)) {
+      parent.splice(key as number, 1);
+    } else {
+      Reflect.deleteProperty(parent as object, key);
+    }
+  }
+  return root;
+}
+
+/**
+ * Returns a copy of the root node in which every node selected by a
+ * JSONPath query is replaced with the result of calling the given function
+ * on its current value. Only the arrays and objects on the paths to
+ * replaced nodes are copied; all other nodes, including the root node
+ * itself when nothing changes, keep their identity. Nested nodes are
+ * replaced before their ancestors, and each node is replaced at most once.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @category Mutate
+ */
+export function updateQuery(
+  query: Query | string,
+  root: Node,
+  updater: NodeUpdater,
+  options?: QueryContextOptions,
+): Node {
+  const copies = new Set<Node>();
+  for (const target of locateTargets(query, root, options)) {
+    root = updateNode(root, target, 0, updater, copies);
+  }
+  return root;
+}
+
+/**
+ * Replaces the node at the given target location below `node`, copying
+ * each container on the way down unless it's already a fresh copy.
+ *
+ * @internal
+ */
+function updateNode(
+  node: Node,
+  target: NodeTarget,
+  depth: number,
+  updater: NodeUpdater,
+  copies: Set<Node>,
+): Node {
+  const keys = target.keys;
+  if (depth === keys.length) {
+    return updater(node, target.path);
+  }
+
+  const key = keys[depth]!;
+  if (!hasChild(node, key)) {
+    return node;
+  }
+  const child = (node as { [key: string | number]: Node })[key];
+  const newChild = updateNode(child, target, depth + 1, updater, copies);
+  if (Object.is(newChild, child)) {
+    return node;
+  }
+
+  let copy = node;
+  if (!copies.has(node)) {
+    copy =
+      isArray(node) ? [...(node as readonly Node[])] : { ...(node as object) };
+    copies.add(copy);
+  }
+  (copy as { [key: string | number]: Node })[key] = newChild;
+  return copy;
+}
+
+/**
+ * Returns the distinct locations of the nodes selected by a query,
+ * ordered so that descendants precede their ancestors, and later
+ * array elements precede earlier elements of the same array.
+ *
+ * @internal
+ */
+function locateTargets(
+  query: Query | string,
+  root: Node,
+  options: QueryContextOptions | undefined,
+): NodeTarget[] {
+  const targets: NodeTarget[] = [];
+  const paths = new Set<string>();
+  for (const node of evaluateQueryLocated(query, root, options)) {
+    if (paths.has(node.path)) {
+      continue;
+    }
+    paths.add(node.path);
+    targets.push(node);
+  }
+  return targets.sort(compareTargets);
+}
+
+/**
+ * Orders node targets in reverse document order.
+ *
+ * @internal
+ */
+function compareTargets(a: NodeTarget, b: NodeTarget): number {
+  const n = Math.min(a.keys.length, b.keys.length);
+  for (let i = 0; i < n; i += 1) {
+    const x = a.keys[i]!;
+    const y = b.keys[i]!;
+    if (x === y) {
+      continue;
+    } else if (typeof x === "number" && typeof y === "number") {
+      return y - x;
+    } else if (typeof x === "string" && typeof y === "string") {
+      return x < y ? 1 : -1;
+    }
+    return typeof x === "number" ? 1 : -1;
+  }
+  return b.keys.length - a.keys.length;
+}
+
+/**
+ * Returns the current parent of the node at the given location,
+ * or `undefined` if the parent no longer exists.
+ *
+ * @internal
+ */
+function resolveParent(
+  root: Node,
+  keys: readonly (string | number)[],
+): Node | undefined {
+  let node = root;
+  for (let i = 0; i < keys.length - 1; i += 1) {
+    const key = keys[i]!;
+    if (!hasChild(node, key)) {
+      return undefined;
+    }
+    node = (node as { [key: string | number]: Node })[key];
+  }
+  return node;
+}
+
+/**
+ * Returns `true` if the given node has a child with the given key.
+ *
+ * @internal
+ */
+function hasChild(node: Node | undefined, key: string | number): boolean {
+  if (typeof key === "number") {
+    return isArray(node) && key < node.length;
+  }
+  return isObject(node) && Object.hasOwn(node, key);
+}
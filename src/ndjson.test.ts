@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { Readable } from "node:stream";
+import { queryNdjson, queryNdjsonLocated } from "tool-query";
+
+void suite("NDJSON records", () => {
+  const text = [
+    '{"level":"info","msg":"started"}',
+    "",
+    '{"level":"error","msg":"failed","code":500}\r',
+    "not json",
+    '{"level":"error","msg":"retried"}',
+  ].join("\n");
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const values: T[] = [];
+    for await (const value of iterable) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  void test("should yield the nodes selected from each record", async () => {
+    assert.deepEqual(
+      await collect(queryNdjson("$.code", text.replace("not json", ""))),
+      [
+        { record: 0, nodes: [] },
+        { record: 1, nodes: [500] },
+        { record: 2, nodes: [] },
+      ],
+    );
+  });
+
+  void test("should tag located nodes with their record number", async () => {
+    assert.deepEqual(
+      await collect(queryNdjsonLocated("$.msg", text, { skipMalformed: true })),
+      [
+        {
+          record: 0,
+          nodes: [{ value: "started", path: "$[0]['msg']", keys: [0, "msg"] }],
+        },
+        {
+          record: 1,
+          nodes: [{ value: "failed", path: "$[1]['msg']", keys: [1, "msg"] }],
+        },
+        {
+          record: 3,
+          nodes: [{ value: "retried", path: "$[3]['msg']", keys: [3, "msg"] }],
+        },
+      ],
+    );
+  });
+
+  void test("should throw on malformed records by default", async () => {
+    await assert.rejects(
+      collect(queryNdjson("$.msg", text)),
+      (error: unknown) =>
+        error instanceof SyntaxError &&
+        error.message.startsWith("Malformed record on line 4"),
+    );
+  });
+
+  void test("should read records split across chunks", async () => {
+    const chunks = text.match(/[^]{1,5}/g)!.map((chunk) => Buffer.from(chunk));
+    const records = await collect(
+      queryNdjson("$.level", Readable.from(chunks), { skipMalformed: true }),
+    );
+    assert.deepEqual(
+      records.map((record) => record.nodes),
+      [["info"], ["error"], ["error"]],
+    );
+  });
+});
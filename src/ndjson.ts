@@ -0,0 +1,192 @@
+import type { Node, NodeList } from "tool-json";
+import type { Query } from "./query.ts";
+import type { LocatedNodeList } from "./location.ts";
+import { createLocatedNode } from "./location.ts";
+import type { QueryContextOptions } from "./context.ts";
+import { coerceQueryContext } from "./context.ts";
+import { compileQuery, compileQueryLocated } from "./compile.ts";
+import type { JsonSource } from "./stream.ts";
+import { readJsonText } from "./stream.ts";
+
+/**
+ * Options for querying the records of newline-delimited JSON text.
+ *
+ * @category NDJSON
+ */
+export interface NdjsonQueryOptions extends QueryContextOptions {
+  /**
+   * Whether to skip lines that aren't well-formed JSON text, rather than
+   * throwing a `SyntaxError`. Skipped lines still consume a record number,
+   * so that record numbers stay aligned with the input. Defaults to `false`.
+   */
+  skipMalformed?: boolean | undefined;
+}
+
+/**
+ * The nodes selected from one record of newline-delimited JSON text.
+ *
+ * @category NDJSON
+ */
+export interface NdjsonRecord {
+  /**
+   * The zero-based number of the record. Blank lines aren't records.
+   */
+  readonly record: number;
+
+  /**
+   * The nodes selected from the record.
+   */
+  readonly nodes: NodeList;
+}
+
+/**
+ * The located nodes selected from one record of newline-delimited
+ * JSON text.
+ *
+ * @category NDJSON
+ */
+export interface LocatedNdjsonRecord {
+  /**
+   * The zero-based number of the record. Blank lines aren't records.
+   */
+  readonly record: number;
+
+  /**
+   * The nodes selected from the record, paired with normalized paths
+   * that locate them in the sequence of records, such as `$[3]['level']`.
+   */
+  readonly nodes: LocatedNodeList;
+}
+
+/**
+ * Evaluates a JSONPath query expression against each record of
+ * newline-delimited JSON text (NDJSON, or JSON Lines), yielding the nodes
+ * selected from each record in turn. The query is compiled once, and
+ * every record yields a result, even if it selects no nodes.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws SyntaxError if a line isn't well-formed JSON text, unless
+ * `skipMalformed` is set.
+ * @category NDJSON
+ */
+export async function* queryNdjson(
+  query: Query | string,
+  source: JsonSource,
+  options?: NdjsonQueryOptions,
+): AsyncGenerator<NdjsonRecord, void, undefined> {
+  const context = coerceQueryContext(options);
+  const compiledQuery = compileQuery(query, context);
+
+  for await (const [record, root] of readNdjsonRecords(
+    source,
+    options?.skipMalformed === true,
+  )) {
+    yield { record, nodes: compiledQuery(root) };
+  }
+}
+
+/**
+ * Evaluates a JSONPath query expression against each record of
+ * newline-delimited JSON text, yielding the nodes selected from each
+ * record paired with normalized paths that begin with the record number.
+ * The query is compiled once, and every record yields a result, even if
+ * it selects no nodes.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws SyntaxError if a line isn't well-formed JSON text, unless
+ * `skipMalformed` is set.
+ * @category NDJSON
+ */
+export async function* queryNdjsonLocated(
+  query: Query | string,
+  source: JsonSource,
+  options?: NdjsonQueryOptions,
+): AsyncGenerator<LocatedNdjsonRecord, void, undefined> {
+  const context = coerceQueryContext(options);
+  const compiledQuery = compileQueryLocated(query, context);
+
+  for await (const [record, root] of readNdjsonRecords(
+    source,
+    options?.skipMalformed === true,
+  )) {
+    const prefix = "$[" + record + "]";
+    const nodes = compiledQuery(root).map((node) =>
+      createLocatedNode(node.value, prefix + node.path.slice(1), [
+        record,
+        ...node.keys,
+      ]),
+    );
+    yield { record, nodes };
+  }
+}
+
+/**
+ * Parses each non-blank line of newline-delimited JSON text, yielding
+ * the record number and value of each well-formed record.
+ *
+ * @category NDJSON
+ * @internal
+ */
+async function* readNdjsonRecords(
+  source: JsonSource,
+  skipMalformed: boolean,
+): AsyncGenerator<readonly [number, Node], void, undefined> {
+  let line = 0;
+  let record = 0;
+  for await (const text of readLines(source)) {
+    line += 1;
+    if (text.trim().length === 0) {
+      continue;
+    }
+
+    let value: Node;
+    try {
+      value = JSON.parse(text) as Node;
+    } catch (error) {
+      if (!skipMalformed) {
+        throw new SyntaxError(
+          "Malformed record on line " +
+            line +
+            ": " +
+            (error as SyntaxError).message,
+          { cause: error },
+        );
+      }
+      record += 1;
+      continue;
+    }
+
+    yield [record, value];
+    record += 1;
+  }
+}
+
+/**
+ * Splits text into lines. Only each new chunk is searched for line breaks,
+ * and the pieces of a line that spans several chunks are joined once,
+ * when the line ends.
+ *
+ * @category NDJSON
+ * @internal
+ */
+async function* readLines(
+  source: JsonSource,
+): AsyncGenerator<string, void, undefined> {
+  const pieces: string[] = [];
+  for await (const chunk of readJsonText(source)) {
+    let start = 0;
+    let end: number;
+    while ((end = chunk.indexOf("\n", start)) !== -1) {
+      pieces.push(chunk.slice(start, end));
+      yield pieces.join("");
+      pieces.length = 0;
+      start = end + 1;
+    }
+    if (start < chunk.length) {
+      pieces.push(chunk.slice(start));
+    }
+  }
+  if (pieces.length !== 0) {
+    yield pieces.join("");
+  }
+}
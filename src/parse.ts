@@ -1,4 +1,6 @@
-import { QueryError } from "./error.ts";
+import type { Node } from "tool-json";
+import { QueryErrorCode, QueryError, QueryLimitError } from "./error.ts";
+import type { SourceSpan, SyntaxNode } from "./span.ts";
 import type { Query } from "./query.ts";
 import { createQuery, isSingularQuery } from "./query.ts";
 import type { Segment } from "./segment.ts";
@@ -35,8 +37,16 @@ import {
   createFunctionExpression,
 } from "./expression.ts";
 import type { FunctionExtension } from "./function.ts";
+import { matchFunction, searchFunction } from "./function.ts";
+import type { IRegexpMatcher } from "./iregexp.ts";
+import { compileRegexp } from "./iregexp.ts";
+import type { QueryDiagnostic, QueryParseResult } from "./diagnostic.ts";
+import { DiagnosticSeverity, createQueryDiagnostic } from "./diagnostic.ts";
 import type { QueryContext, QueryContextOptions } from "./context.ts";
 import { QueryScope, coerceQueryContext } from "./context.ts";
+import { jsonNodeAdapter } from "./adapter.ts";
+import { defaultMaxNesting } from "./limit.ts";
+import { suggestNames, formatSuggestions } from "./suggest.ts";
 
 /** @internal */
 interface InputBuffer {
@@ -70,6 +80,25 @@ export function parseQuery(
       { input, offset: 0, limit: input.length }
     : input;
 
+  // Cached queries carry no source spans, and were checked only against
+  // the default parse limits and regular expression mode.
+  const queryCache =
+    (
+      context.sourceSpans !== true &&
+      context.parseLimits === undefined &&
+      context.safeRegexps !== true
+    ) ?
+      context.queryCache
+    : undefined;
+
+  if (typeof input === "string") {
+    checkInputLength(buf, context);
+    const query = queryCache?.get(input, context.functionExtensions);
+    if (query !== undefined) {
+      return query;
+    }
+  }
+
   // §2.1.1 ¶1: A JSONPath query consists of a root identifier ($),
   // which stands for a nodelist that contains the root node of the
   // query argument, followed by a possibly empty sequence of segments.
@@ -77,18 +106,38 @@ export function parseQuery(
   // jsonpath-query = root-identifier segments
 
   // root-identifier = "$"
+  const start = buf.offset;
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   if (c !== 0x24 /*"$"*/) {
-    throw new QueryError('Expected root identifier ("$")', buf);
+    throw new QueryError('Expected root identifier ("$")', {
+      ...buf,
+      code: QueryErrorCode.ExpectedRootIdentifier,
+    });
   }
   buf.offset += 1; // "$"
 
   const segments = parseSegments(buf, context);
+  const query = setSourceSpan(
+    createQuery(segments),
+    start,
+    buf.offset,
+    context,
+  );
 
-  if (typeof input === "string" && buf.offset !== input.length) {
-    throw new QueryError("Invalid JSONPath query", buf);
+  if (typeof input === "string") {
+    parseBlankSpace(buf);
+    if (buf.offset !== input.length) {
+      throw new QueryError("Invalid JSONPath query", {
+        ...buf,
+        code: QueryErrorCode.InvalidQuery,
+      });
+    }
   }
-  return createQuery(segments);
+
+  if (typeof input === "string") {
+    queryCache?.set(input, context.functionExtensions, query);
+  }
+  return query;
 }
 
 /**
@@ -108,6 +157,262 @@ export function tryParseQuery(
   }
 }
 
+/**
+ * Parses an RFC 9535 JSONPath query expression, recovering from errors
+ * at segment and selector boundaries, so that every problem in the input
+ * is reported at once. Returns the query parsed from the well-formed
+ * parts of the input, along with a diagnostic for each problem found.
+ *
+ * @category Parse
+ */
+export function parseQueryWithDiagnostics(
+  input: string,
+  options?: QueryContextOptions,
+): QueryParseResult {
+  const context = coerceQueryContext(options);
+  const buf = { input, offset: 0, limit: input.length };
+  const segments: Segment[] = [];
+  const diagnostics: QueryDiagnostic[] = [];
+
+  try {
+    checkInputLength(buf, context);
+  } catch (error) {
+    addErrorDiagnostic(error, buf.limit, buf, diagnostics);
+    return { query: createQuery(segments), diagnostics };
+  }
+
+  // root-identifier = "$"
+  if (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x24 /*"$"*/
+  ) {
+    buf.offset += 1; // "$"
+  } else {
+    // Resume parsing at the first segment.
+    const end = skipSegment(buf, 0);
+    diagnostics.push(
+      createQueryDiagnostic(
+        'Expected root identifier ("$")',
+        DiagnosticSeverity.Error,
+        { start: 0, end: Math.max(end, Math.min(1, buf.limit)) },
+        QueryErrorCode.ExpectedRootIdentifier,
+      ),
+    );
+    buf.offset = end;
+  }
+
+  // segments = *(S segment)
+  while (true) {
+    parseBlankSpace(buf);
+    if (buf.offset >= buf.limit) {
+      break;
+    }
+
+    const start = buf.offset;
+    let dotCount = 0;
+    while (
+      dotCount < 2 &&
+      buf.input.charCodeAt(start + dotCount) === 0x2e /*"."*/
+    ) {
+      dotCount += 1;
+    }
+
+    if (
+      dotCount !== 1 &&
+      buf.input.charCodeAt(start + dotCount) === 0x5b /*"["*/
+    ) {
+      buf.offset = start + dotCount + 1; // "[" / "..["
+      const diagnosticCount = diagnostics.length;
+      const selectors = parseSelectorsWithDiagnostics(
+        buf,
+        context,
+        diagnostics,
+      );
+      if (selectors.length !== 0 || diagnostics.length === diagnosticCount) {
+        const segment =
+          dotCount === 0 ?
+            createChildSegment(selectors)
+          : createDescendantSegment(selectors);
+        segments.push(setSourceSpan(segment, start, buf.offset, context));
+      }
+    } else if (dotCount !== 0) {
+      try {
+        segments.push(parseSegment(buf, context)!);
+      } catch (error) {
+        const end = skipSegment(buf, Math.max(buf.offset, start + dotCount));
+        addErrorDiagnostic(error, end, buf, diagnostics);
+        buf.offset = end;
+      }
+    } else {
+      const end = skipSegment(buf, start + 1);
+      diagnostics.push(
+        createQueryDiagnostic(
+          "Invalid JSONPath query",
+          DiagnosticSeverity.Error,
+          { start, end },
+          QueryErrorCode.InvalidQuery,
+        ),
+      );
+      buf.offset = end;
+    }
+  }
+
+  const query = setSourceSpan(createQuery(segments), 0, buf.limit, context);
+  return { query, diagnostics };
+}
+
+/**
+ * Parses the selectors of a bracketed selection that follow its opening
+ * bracket, skipping over each selector that can't be parsed.
+ *
+ * @internal
+ */
+function parseSelectorsWithDiagnostics(
+  buf: InputBuffer,
+  context: QueryContext,
+  diagnostics: QueryDiagnostic[],
+): Selector[] {
+  // bracketed-selection = "[" S selector *(S "," S selector) S "]"
+  const selectors: Selector[] = [];
+  let selectorCount = 0;
+  while (true) {
+    parseBlankSpace(buf);
+    if (buf.offset >= buf.limit) {
+      diagnostics.push(
+        createQueryDiagnostic(
+          "Expected close bracket",
+          DiagnosticSeverity.Error,
+          { start: buf.limit, end: buf.limit },
+          QueryErrorCode.ExpectedCloseBracket,
+        ),
+      );
+      return selectors;
+    }
+
+    if (buf.input.charCodeAt(buf.offset) === 0x5d /*"]"*/) {
+      buf.offset += 1; // "]"
+      return selectors;
+    }
+
+    // Each selector is followed by a comma or a close bracket.
+    if (selectorCount !== 0) {
+      buf.offset += 1; // ","
+      parseBlankSpace(buf);
+    }
+    selectorCount += 1;
+
+    const start = buf.offset;
+    try {
+      const selector = parseSelector(buf, context);
+      parseBlankSpace(buf);
+      const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+      if (c !== -1 && c !== 0x2c /*","*/ && c !== 0x5d /*"]"*/) {
+        throw new QueryError("Expected comma", {
+          ...buf,
+          code: QueryErrorCode.ExpectedComma,
+        });
+      }
+      selectors.push(selector);
+    } catch (error) {
+      const end = skipSelector(buf, start);
+      addErrorDiagnostic(error, end, buf, diagnostics);
+      buf.offset = end;
+    }
+  }
+}
+
+/**
+ * Records a diagnostic for a parse error, spanning from the offset of the
+ * error to the offset at which parsing recovers.
+ *
+ * @internal
+ */
+function addErrorDiagnostic(
+  error: unknown,
+  end: number,
+  buf: InputBuffer,
+  diagnostics: QueryDiagnostic[],
+): void {
+  if (!(error instanceof QueryError)) {
+    throw error;
+  }
+  const start = Math.min(error.offset ?? buf.offset, buf.limit);
+  diagnostics.push(
+    createQueryDiagnostic(
+      (error as Error).message,
+      DiagnosticSeverity.Error,
+      { start, end: Math.max(end, Math.min(start + 1, buf.limit)) },
+      error.code,
+    ),
+  );
+}
+
+/**
+ * Returns the offset of the next segment at or after `offset`.
+ *
+ * @internal
+ */
+function skipSegment(buf: InputBuffer, offset: number): number {
+  while (offset < buf.limit) {
+    const c = buf.input.charCodeAt(offset);
+    if (c === 0x2e /*"."*/ || c === 0x5b /*"["*/) {
+      break;
+    } else if (c === 0x22 /*"\""*/ || c === 0x27 /*"'"*/) {
+      offset = skipStringLiteral(buf, offset);
+    } else {
+      offset += 1;
+    }
+  }
+  return offset;
+}
+
+/**
+ * Returns the offset of the comma or close bracket that ends the selector
+ * at `offset`, skipping over nested brackets, parentheses and strings.
+ *
+ * @internal
+ */
+function skipSelector(buf: InputBuffer, offset: number): number {
+  let depth = 0;
+  while (offset < buf.limit) {
+    const c = buf.input.charCodeAt(offset);
+    if (c === 0x22 /*"\""*/ || c === 0x27 /*"'"*/) {
+      offset = skipStringLiteral(buf, offset);
+      continue;
+    } else if (c === 0x28 /*"("*/ || c === 0x5b /*"["*/) {
+      depth += 1;
+    } else if (c === 0x29 /*")"*/ || c === 0x5d /*"]"*/) {
+      if (depth !== 0) {
+        depth -= 1;
+      } else if (c === 0x5d /*"]"*/) {
+        break;
+      }
+    } else if (c === 0x2c /*","*/ && depth === 0) {
+      break;
+    }
+    offset += 1;
+  }
+  return offset;
+}
+
+/**
+ * Returns the offset just past the string literal at `offset`.
+ *
+ * @internal
+ */
+function skipStringLiteral(buf: InputBuffer, offset: number): number {
+  const quote = buf.input.charCodeAt(offset);
+  offset += 1; // quote
+  while (offset < buf.limit) {
+    const c = buf.input.charCodeAt(offset);
+    if (c === quote) {
+      return offset + 1;
+    }
+    offset += c === 0x5c /*"\\"*/ ? 2 : 1;
+  }
+  return buf.limit;
+}
+
 /**
  * Parses an RFC 9535 JSONPath query with an optional root identifier.
  *
@@ -136,6 +441,10 @@ export function parseImplicitQuery(
       { input, offset: 0, limit: input.length }
     : input;
 
+  if (typeof input === "string") {
+    checkInputLength(buf, context);
+  }
+
   // query-expression = jsonpath-query / implicit-query
   //
   // implicit-query = [(implicit-child-segment / segment) *(S segment)]
@@ -143,25 +452,56 @@ export function parseImplicitQuery(
   // implicit-child-segment = wildcard-selector / member-name-shorthand
 
   const segments: Segment[] = [];
+  const start = buf.offset;
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   if (c === 0x24 /*"$"*/) {
     buf.offset += 1; // "$"
   } else if (c === 0x2a /*"*"*/) {
     buf.offset += 1; // "*"
-    segments.push(createChildSegment([createWildcardSelector()]));
+    const selector = setSourceSpan(
+      createWildcardSelector(),
+      start,
+      buf.offset,
+      context,
+    );
+    segments.push(
+      setSourceSpan(createChildSegment([selector]), start, buf.offset, context),
+    );
   } else if (isNameFirstChar(c)) {
     const name = parseShorthandName(buf);
-    const selector = createNameSelector(name);
-    segments.push(createChildSegment([selector]));
+    const selector = setSourceSpan(
+      createNameSelector(name),
+      start,
+      buf.offset,
+      context,
+    );
+    segments.push(
+      setSourceSpan(createChildSegment([selector]), start, buf.offset, context),
+    );
   } else if (isSpaceChar(c)) {
-    throw new QueryError("Expected JSONPath query", buf);
+    throw new QueryError("Expected JSONPath query", {
+      ...buf,
+      code: QueryErrorCode.ExpectedQuery,
+    });
   }
   parseSegments(buf, context, segments);
+  const query = setSourceSpan(
+    createQuery(segments),
+    start,
+    buf.offset,
+    context,
+  );
 
-  if (typeof input === "string" && buf.offset !== input.length) {
-    throw new QueryError("Invalid JSONPath query", buf);
+  if (typeof input === "string") {
+    parseBlankSpace(buf);
+    if (buf.offset !== input.length) {
+      throw new QueryError("Invalid JSONPath query", {
+        ...buf,
+        code: QueryErrorCode.InvalidQuery,
+      });
+    }
   }
-  return createQuery(segments);
+  return query;
 }
 
 /**
@@ -181,21 +521,407 @@ export function tryParseImplicitQuery(
   }
 }
 
+/**
+ * Parses an RFC 9535 normalized path: a root identifier followed by
+ * bracketed member names and non-negative array indices, with the
+ * canonical string escaping required to give each location exactly
+ * one representation.
+ *
+ * @see [RFC 9535 §2.7](https://datatracker.ietf.org/doc/html/rfc9535#section-2.7)
+ * @throws QueryError if the input is not a normalized path.
+ * @category Parse
+ */
+export function parseNormalizedPath(input: string): Query {
+  const buf = { input, offset: 0, limit: input.length };
+
+  // normalized-path = root-identifier *(normal-index-segment)
+  if (
+    buf.offset >= buf.limit ||
+    buf.input.charCodeAt(buf.offset) !== 0x24 /*"$"*/
+  ) {
+    throw new QueryError('Expected root identifier ("$")', {
+      ...buf,
+      code: QueryErrorCode.ExpectedRootIdentifier,
+    });
+  }
+  buf.offset += 1; // "$"
+
+  const segments: Segment[] = [];
+  while (buf.offset < buf.limit) {
+    // normal-index-segment = "[" normal-selector "]"
+    if (buf.input.charCodeAt(buf.offset) !== 0x5b /*"["*/) {
+      throw new QueryError("Expected bracketed selection", {
+        ...buf,
+        code: QueryErrorCode.ExpectedBracketedSelection,
+      });
+    }
+    buf.offset += 1; // "["
+
+    // normal-selector = normal-name-selector / normal-index-selector
+    let selector: Selector;
+    const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+    if (c === 0x27 /*"'"*/) {
+      selector = createNameSelector(parseNormalName(buf));
+    } else if (isDigit(c)) {
+      selector = createIndexSelector(parseNormalIndex(buf));
+    } else {
+      throw new QueryError("Expected name or index selector", {
+        ...buf,
+        code: QueryErrorCode.ExpectedSelector,
+      });
+    }
+
+    if (
+      buf.offset >= buf.limit ||
+      buf.input.charCodeAt(buf.offset) !== 0x5d /*"]"*/
+    ) {
+      throw new QueryError("Expected close bracket", {
+        ...buf,
+        code: QueryErrorCode.ExpectedCloseBracket,
+      });
+    }
+    buf.offset += 1; // "]"
+
+    segments.push(createChildSegment([selector]));
+  }
+
+  return createQuery(segments);
+}
+
+/**
+ * Parses an RFC 9535 normalized path, returning `undefined` if the input
+ * is not a normalized path.
+ *
+ * @category Parse
+ */
+export function tryParseNormalizedPath(input: string): Query | undefined {
+  try {
+    return parseNormalizedPath(input);
+  } catch {
+    return undefined;
+  }
+}
+
+/** @internal */
+function parseNormalName(buf: InputBuffer): string {
+  let result = "";
+
+  // normal-name-selector = %x27 *normal-single-quoted %x27 ; 'string'
+  if (
+    buf.offset >= buf.limit ||
+    buf.input.charCodeAt(buf.offset) !== 0x27 /*"'"*/
+  ) {
+    throw new QueryError("Expected string literal", {
+      ...buf,
+      code: QueryErrorCode.ExpectedStringLiteral,
+    });
+  }
+  buf.offset += 1; // "'"
+
+  // normal-single-quoted = normal-unescaped /
+  //                        ESC normal-escapable
+  while (true) {
+    if (buf.offset >= buf.limit) {
+      throw new QueryError("Unterminated string literal", {
+        ...buf,
+        code: QueryErrorCode.UnterminatedStringLiteral,
+      });
+    }
+    let c = buf.input.charCodeAt(buf.offset);
+    if (c === 0x27 /*"'"*/) {
+      buf.offset += 1; // "'"
+      break;
+    }
+
+    // normal-unescaped = %x20-26 / %x28-5B / %x5D-D7FF / %xE000-10FFFF
+    if (c >= 0xd800 && c <= 0xdbff) {
+      const c1 =
+        buf.offset + 1 < buf.limit ? buf.input.charCodeAt(buf.offset + 1) : -1;
+      if (c1 < 0xdc00 || c1 > 0xdfff) {
+        throw new QueryError("Expected low surrogate", {
+          ...buf,
+          code: QueryErrorCode.InvalidSurrogate,
+        });
+      }
+      result += String.fromCharCode(c, c1);
+      buf.offset += 2;
+      continue;
+    } else if (isUnescapedStringChar(c) || c === 0x22 /*"\""*/) {
+      result += String.fromCharCode(c);
+      buf.offset += 1;
+      continue;
+    } else if (c !== 0x5c /*"\\"*/) {
+      throw new QueryError("Invalid string literal character", {
+        ...buf,
+        code: QueryErrorCode.InvalidStringCharacter,
+      });
+    }
+    buf.offset += 1; // "\\"
+
+    // normal-escapable = %x62 / ; b BS backspace U+0008
+    //                    %x66 / ; f FF form feed U+000C
+    //                    %x6E / ; n LF line feed U+000A
+    //                    %x72 / ; r CR carriage return U+000D
+    //                    %x74 / ; t HT horizontal tab U+0009
+    //                    "'" /  ; ' apostrophe U+0027
+    //                    "\" /  ; \ backslash (reverse solidus) U+005C
+    //                    (%x75 normal-hexchar)
+    //                           ; certain values u00xx U+00XX
+    c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+    switch (c) {
+      case 0x62: // "b"
+        buf.offset += 1;
+        result += "\b";
+        continue;
+      case 0x66: // "f"
+        buf.offset += 1;
+        result += "\f";
+        continue;
+      case 0x6e: // "n"
+        buf.offset += 1;
+        result += "\n";
+        continue;
+      case 0x72: // "r"
+        buf.offset += 1;
+        result += "\r";
+        continue;
+      case 0x74: // "t"
+        buf.offset += 1;
+        result += "\t";
+        continue;
+      case 0x27: // "'"
+        buf.offset += 1;
+        result += "'";
+        continue;
+      case 0x5c: // "\\"
+        buf.offset += 1;
+        result += "\\";
+        continue;
+      case 0x75: // "u"
+        buf.offset += 1;
+        break;
+      default:
+        throw new QueryError("Invalid escape sequence", {
+          ...buf,
+          code: QueryErrorCode.InvalidEscapeSequence,
+        });
+    }
+
+    // normal-hexchar = "0" "0"
+    //                  (
+    //                     ("0" %x30-37) / ; "00"-"07"
+    //                       ; excluding %x08-0A, %x0C-0D
+    //                     ("0" %x62) /    ; "0b"
+    //                     ("0" %x65-66) / ; "0e"-"0f"
+    //                     ("1" normal-HEXDIG)
+    //                  )
+    // normal-HEXDIG  = DIGIT / %x61-66    ; "0"-"9", "a"-"f"
+    const c0 = buf.input.charCodeAt(buf.offset);
+    const c1 = buf.input.charCodeAt(buf.offset + 1);
+    const c2 = buf.input.charCodeAt(buf.offset + 2);
+    const c3 = buf.input.charCodeAt(buf.offset + 3);
+    if (
+      c0 !== 0x30 /*"0"*/ ||
+      c1 !== 0x30 /*"0"*/ ||
+      !isNormalHexChar(c2, c3)
+    ) {
+      throw new QueryError("Invalid normal escape sequence", {
+        ...buf,
+        code: QueryErrorCode.InvalidEscapeSequence,
+      });
+    }
+    buf.offset += 4; // normal-hexchar
+
+    result += String.fromCharCode(
+      (getNormalHexValue(c2) << 4) | getNormalHexValue(c3),
+    );
+  }
+
+  return result;
+}
+
+/** @internal */
+function parseNormalIndex(buf: InputBuffer): number {
+  // normal-index-selector = "0" / (DIGIT1 *DIGIT)
+  //                         ; non-negative decimal integer
+  let c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+
+  if (c === 0x30 /*"0"*/) {
+    buf.offset += 1;
+    return 0;
+  }
+
+  if (c < 0x31 /*"1"*/ || c > 0x39 /*"9"*/) {
+    throw new QueryError("Expected digit", {
+      ...buf,
+      code: QueryErrorCode.ExpectedDigit,
+    });
+  }
+
+  let value = 0;
+  while (
+    buf.offset < buf.limit &&
+    ((c = buf.input.charCodeAt(buf.offset)), isDigit(c))
+  ) {
+    buf.offset += 1;
+    value = value * 10 + c - 0x30 /*"0"*/;
+  }
+
+  return value;
+}
+
+/**
+ * Parses an RFC 6901 JSON Pointer as a singular JSONPath query expression.
+ *
+ * A reference token that could be an array index, such as `0`, refers to
+ * an array element or to an object member, depending on the document it's
+ * applied to. Such tokens parse as index selectors, unless the document
+ * is given as `root`, in which case tokens that don't step into an array
+ * parse as name selectors.
+ *
+ * @see [RFC 6901](https://datatracker.ietf.org/doc/html/rfc6901)
+ * @throws QueryError if the input is not a valid JSON Pointer.
+ * @category Parse
+ */
+export function parseJsonPointer(input: string, root?: Node): Query {
+  const buf = { input, offset: 0, limit: input.length };
+  let node = root;
+
+  // json-pointer = *( "/" reference-token )
+  const segments: Segment[] = [];
+  while (buf.offset < buf.limit) {
+    if (buf.input.charCodeAt(buf.offset) !== 0x2f /*"/"*/) {
+      throw new QueryError('Expected "/"', {
+        ...buf,
+        code: QueryErrorCode.ExpectedSlash,
+      });
+    }
+    buf.offset += 1; // "/"
+
+    const token = parseReferenceToken(buf);
+    let selector: Selector;
+    if (
+      isArrayIndexToken(token) &&
+      (root === undefined || jsonNodeAdapter.isArray(node))
+    ) {
+      const index = Number(token);
+      selector = createIndexSelector(index);
+      node = node !== undefined ? jsonNodeAdapter.child(node, index) : node;
+    } else {
+      selector = createNameSelector(token);
+      node = node !== undefined ? jsonNodeAdapter.child(node, token) : node;
+    }
+    segments.push(createChildSegment([selector]));
+  }
+
+  return createQuery(segments);
+}
+
+/**
+ * Parses an RFC 6901 JSON Pointer as a JSONPath query expression,
+ * returning `undefined` if the input is not a valid JSON Pointer.
+ *
+ * @category Parse
+ */
+export function tryParseJsonPointer(
+  input: string,
+  root?: Node,
+): Query | undefined {
+  try {
+    return parseJsonPointer(input, root);
+  } catch {
+    return undefined;
+  }
+}
+
+/** @internal */
+function parseReferenceToken(buf: InputBuffer): string {
+  let result = "";
+
+  // reference-token = *( unescaped / escaped )
+  // unescaped       = %x00-2E / %x30-7D / %x7F-10FFFF
+  //                   ; %x2F ('/') and %x7E ('~') are excluded from 'unescaped'
+  // escaped         = "~" ( "0" / "1" )
+  //                   ; representing '~' and '/', respectively
+  let start = buf.offset;
+  while (buf.offset < buf.limit) {
+    const c = buf.input.charCodeAt(buf.offset);
+    if (c === 0x2f /*"/"*/) {
+      break;
+    } else if (c !== 0x7e /*"~"*/) {
+      buf.offset += 1;
+      continue;
+    }
+    result += buf.input.slice(start, buf.offset);
+    buf.offset += 1; // "~"
+
+    const c1 = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+    if (c1 === 0x30 /*"0"*/) {
+      result += "~";
+    } else if (c1 === 0x31 /*"1"*/) {
+      result += "/";
+    } else {
+      throw new QueryError("Invalid escape sequence", {
+        ...buf,
+        code: QueryErrorCode.InvalidEscapeSequence,
+      });
+    }
+    buf.offset += 1; // "0" or "1"
+    start = buf.offset;
+  }
+  result += buf.input.slice(start, buf.offset);
+
+  return result;
+}
+
+/** @internal */
+function isArrayIndexToken(token: string): boolean {
+  // array-index = %x30 / ( %x31-39 *(%x30-39) )
+  //               ; "0", or digits without a leading "0"
+  if (token.length === 0) {
+    return false;
+  }
+  const c = token.charCodeAt(0);
+  if (c === 0x30 /*"0"*/) {
+    return token.length === 1;
+  } else if (c < 0x31 /*"1"*/ || c > 0x39 /*"9"*/) {
+    return false;
+  }
+  for (let i = 1; i < token.length; i += 1) {
+    if (!isDigit(token.charCodeAt(i))) {
+      return false;
+    }
+  }
+  return Number.isSafeInteger(Number(token));
+}
+
 /** @internal */
 function parseSegments(
   buf: InputBuffer,
   context: QueryContext,
   segments: Segment[] = [],
 ): Segment[] {
+  const maxSegments = context.parseLimits?.maxSegments;
+
   // segments = *(S segment)
   while (true) {
+    const end = buf.offset;
     parseBlankSpace(buf);
+    const offset = buf.offset;
     const segment = parseSegment(buf, context);
-    if (segment !== undefined) {
-      segments.push(segment);
-    } else {
+    if (segment === undefined) {
+      // Leave trailing blank space to the enclosing syntax node,
+      // so that its source span ends with its last segment.
+      buf.offset = end;
       break;
     }
+    if (maxSegments !== undefined && segments.length >= maxSegments) {
+      throw new QueryLimitError(
+        "Query has more than " + maxSegments + " segments",
+        { input: buf.input, offset, limit: "maxSegments" },
+      );
+    }
+    segments.push(segment);
   }
   return segments;
 }
@@ -228,6 +954,11 @@ export function parseSegment(
       { input, offset: 0, limit: input.length }
     : input;
 
+  if (typeof input === "string") {
+    checkInputLength(buf, context);
+  }
+
+  const start = buf.offset;
   let segment: Segment | undefined;
   // Loop used for goto only; it never actually repeats.
   while (true) {
@@ -253,7 +984,12 @@ export function parseSegment(
 
       if (c === 0x2a /*"*"*/) {
         buf.offset += 1; // "*"
-        const selector = createWildcardSelector();
+        const selector = setSourceSpan(
+          createWildcardSelector(),
+          buf.offset - 1,
+          buf.offset,
+          context,
+        );
         if (dotCount === 1) {
           segment = createChildSegment([selector]);
         } else if (dotCount === 2) {
@@ -261,8 +997,14 @@ export function parseSegment(
         }
         break;
       } else if (isNameFirstChar(c)) {
+        const selectorStart = buf.offset;
         const name = parseShorthandName(buf);
-        const selector = createNameSelector(name);
+        const selector = setSourceSpan(
+          createNameSelector(name),
+          selectorStart,
+          buf.offset,
+          context,
+        );
         if (dotCount === 1) {
           segment = createChildSegment([selector]);
         } else if (dotCount === 2) {
@@ -272,7 +1014,10 @@ export function parseSegment(
       }
 
       if (dotCount === 1) {
-        throw new QueryError("Expected dot segment", buf);
+        throw new QueryError("Expected dot segment", {
+          ...buf,
+          code: QueryErrorCode.ExpectedSegment,
+        });
       }
 
       c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
@@ -283,7 +1028,10 @@ export function parseSegment(
       if (dotCount === 0) {
         break;
       }
-      throw new QueryError("Expected bracketed selection", buf);
+      throw new QueryError("Expected bracketed selection", {
+        ...buf,
+        code: QueryErrorCode.ExpectedBracketedSelection,
+      });
     }
     buf.offset += 1; // "["
 
@@ -305,7 +1053,10 @@ export function parseSegment(
           buf.offset >= buf.limit ||
           buf.input.charCodeAt(buf.offset) !== 0x2c /*","*/
         ) {
-          throw new QueryError("Expected comma", buf);
+          throw new QueryError("Expected comma", {
+            ...buf,
+            code: QueryErrorCode.ExpectedComma,
+          });
         }
         buf.offset += 1; // ","
         parseBlankSpace(buf);
@@ -326,8 +1077,15 @@ export function parseSegment(
     break;
   }
 
+  if (segment !== undefined) {
+    setSourceSpan(segment, start, buf.offset, context);
+  }
+
   if (typeof input === "string" && buf.offset !== input.length) {
-    throw new QueryError("Invalid JSONPath segment", buf);
+    throw new QueryError("Invalid JSONPath segment", {
+      ...buf,
+      code: QueryErrorCode.InvalidSegment,
+    });
   }
   return segment;
 }
@@ -377,12 +1135,17 @@ export function parseSelector(
       { input, offset: 0, limit: input.length }
     : input;
 
+  if (typeof input === "string") {
+    checkInputLength(buf, context);
+  }
+
   // selector = name-selector /
   //            wildcard-selector /
   //            slice-selector /
   //            index-selector /
   //            filter-selector
   let selector: Selector;
+  const start = buf.offset;
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   if (c === 0x22 /*"\""*/ || c === 0x27 /*"'"*/) {
     selector = parseNameSelector(buf);
@@ -393,11 +1156,18 @@ export function parseSelector(
   } else if (c === 0x3f /*"?"*/) {
     selector = parseFilterSelector(buf, context);
   } else {
-    throw new QueryError("Expected selector", buf);
+    throw new QueryError("Expected selector", {
+      ...buf,
+      code: QueryErrorCode.ExpectedSelector,
+    });
   }
+  setSourceSpan(selector, start, buf.offset, context);
 
   if (typeof input === "string" && buf.offset !== input.length) {
-    throw new QueryError("Invalid JSONPath selector", buf);
+    throw new QueryError("Invalid JSONPath selector", {
+      ...buf,
+      code: QueryErrorCode.InvalidSelector,
+    });
   }
   return selector;
 }
@@ -431,7 +1201,10 @@ function parseWildcardSelector(buf: InputBuffer): WildcardSelector {
   // wildcard-selector = "*"
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   if (c !== 0x2a /*"*"*/) {
-    throw new QueryError("Expected wildcard selector", buf);
+    throw new QueryError("Expected wildcard selector", {
+      ...buf,
+      code: QueryErrorCode.ExpectedSelector,
+    });
   }
   buf.offset += 1; // "*"
   return createWildcardSelector();
@@ -446,20 +1219,30 @@ function parseArraySelector(buf: InputBuffer): ArraySelector {
   // step           = int ; default: 1
   let c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
 
+  // Trailing blank space belongs to the enclosing bracketed selection,
+  // so track the end of the last token consumed by the selector.
+  let tokenEnd = buf.offset;
+
   let start: number | undefined;
   if (c === 0x2d /*"-"*/ || isDigit(c)) {
     start = parseInt(buf);
+    tokenEnd = buf.offset;
     parseBlankSpace(buf);
     c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   }
 
   if (c !== 0x3a /*":"*/) {
     if (start === undefined) {
-      throw new QueryError("Expected index selector", buf);
+      throw new QueryError("Expected index selector", {
+        ...buf,
+        code: QueryErrorCode.ExpectedSelector,
+      });
     }
+    buf.offset = tokenEnd;
     return createIndexSelector(start);
   }
   buf.offset += 1; // ":"
+  tokenEnd = buf.offset;
   parseBlankSpace(buf);
   c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
 
@@ -467,6 +1250,7 @@ function parseArraySelector(buf: InputBuffer): ArraySelector {
   let end: number | undefined;
   if (c === 0x2d /*"-"*/ || isDigit(c)) {
     end = parseInt(buf);
+    tokenEnd = buf.offset;
     parseBlankSpace(buf);
     c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
   }
@@ -475,13 +1259,17 @@ function parseArraySelector(buf: InputBuffer): ArraySelector {
   let step: number | undefined;
   if (c === 0x3a /*":"*/) {
     buf.offset += 1; // ":"
+    tokenEnd = buf.offset;
     parseBlankSpace(buf);
     c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
     if (c === 0x2d /*"-"*/ || isDigit(c)) {
       step = parseInt(buf);
+      tokenEnd = buf.offset;
     }
   }
 
+  buf.offset = tokenEnd;
+
   return createSliceSelector(start, end, step);
 }
 
@@ -495,7 +1283,10 @@ function parseFilterSelector(
     buf.offset >= buf.limit ||
     buf.input.charCodeAt(buf.offset) !== 0x3f /*"?"*/
   ) {
-    throw new QueryError("Expected filter selector", buf);
+    throw new QueryError("Expected filter selector", {
+      ...buf,
+      code: QueryErrorCode.ExpectedSelector,
+    });
   }
   buf.offset += 1; // "?"
   parseBlankSpace(buf);
@@ -540,11 +1331,37 @@ export function parseExpression(
       { input, offset: 0, limit: input.length }
     : input;
 
+  if (typeof input === "string") {
+    checkInputLength(buf, context);
+  }
+
+  // Bound the recursion of nested expressions.
+  const parseDepth = context.parseDepth;
+  const maxNesting = context.parseLimits?.maxNesting ?? defaultMaxNesting;
+  if (parseDepth >= maxNesting) {
+    throw new QueryLimitError(
+      "Expression nested more than " + maxNesting + " levels deep",
+      { input: buf.input, offset: buf.offset, limit: "maxNesting" },
+    );
+  }
+
   // logical-expr = logical-or-expr
-  const expression = parseOrExpression(buf, context);
+  let expression: Expression;
+  context.parseDepth = parseDepth + 1;
+  try {
+    expression = parseOrExpression(buf, context);
+  } finally {
+    context.parseDepth = parseDepth;
+  }
 
-  if (typeof input === "string" && buf.offset !== input.length) {
-    throw new QueryError("Invalid JSONPath expression", buf);
+  if (typeof input === "string") {
+    parseBlankSpace(buf);
+    if (buf.offset !== input.length) {
+      throw new QueryError("Invalid JSONPath expression", {
+        ...buf,
+        code: QueryErrorCode.InvalidExpression,
+      });
+    }
   }
   return expression;
 }
@@ -566,13 +1383,44 @@ export function tryParseExpression(
   }
 }
 
+/**
+ * Records the source span of a syntax node, if the context
+ * requests source spans.
+ *
+ * @internal
+ */
+function setSourceSpan<T extends SyntaxNode>(
+  node: T,
+  start: number,
+  end: number,
+  context: QueryContext,
+): T {
+  if (context.sourceSpans === true) {
+    (node as { span?: SourceSpan }).span = { start, end };
+  }
+  return node;
+}
+
+/** @internal */
+function checkInputLength(buf: InputBuffer, context: QueryContext): void {
+  const maxLength = context.parseLimits?.maxLength;
+  if (maxLength !== undefined && buf.limit > maxLength) {
+    throw new QueryLimitError(
+      "Input is longer than " + maxLength + " characters",
+      { input: buf.input, offset: maxLength, limit: "maxLength" },
+    );
+  }
+}
+
 /** @internal */
 function parseOrExpression(
   buf: InputBuffer,
   context: QueryContext,
 ): Expression {
   // logical-or-expr = logical-and-expr *(S "||" S logical-and-expr)
+  const start = buf.offset;
   let expr: Expression[] | Expression = parseAndExpression(buf, context);
+  let end = buf.offset;
 
   // *(S "||" S logical-and-expr)
   while (true) {
@@ -590,21 +1438,44 @@ function parseOrExpression(
       buf.offset >= buf.limit ||
       buf.input.charCodeAt(buf.offset) !== 0x7c /*"|"*/
     ) {
-      throw new QueryError("Expected || operator", buf);
+      throw new QueryError("Expected || operator", {
+        ...buf,
+        code: QueryErrorCode.ExpectedOperator,
+      });
     }
     buf.offset += 1; // "|"
 
+    if (
+      buf.offset < buf.limit &&
+      buf.input.charCodeAt(buf.offset) === 0x7c /*"|"*/
+    ) {
+      throw new QueryError(
+        'Unsupported operator "|||"; ' + formatSuggestions(["||"]),
+        {
+          ...buf,
+          offset: buf.offset - 2,
+          code: QueryErrorCode.UnsupportedSyntax,
+          details: { suggestions: ["||"] },
+        },
+      );
+    }
+
     parseBlankSpace(buf);
 
     const operand = parseAndExpression(buf, context);
+    end = buf.offset;
     if (!Array.isArray(expr)) {
       expr = [expr];
     }
     expr.push(operand);
   }
 
+  // Leave trailing blank space to the enclosing syntax node,
+  // so that its source span ends with its last operand.
+  buf.offset = end;
+
   if (Array.isArray(expr)) {
-    return createOrExpression(expr);
+    return setSourceSpan(createOrExpression(expr), start, end, context);
   }
 
   return expr;
@@ -616,7 +1487,9 @@ function parseAndExpression(
   context: QueryContext,
 ): Expression {
   // logical-and-expr = basic-expr *(S "&&" S basic-expr)
+  const start = buf.offset;
   let expr: Expression[] | Expression = parseBasicExpression(buf, context);
+  let end = buf.offset;
 
   // *(S "&&" S basic-expr)
   while (true) {
@@ -634,21 +1507,44 @@ function parseAndExpression(
       buf.offset >= buf.limit ||
       buf.input.charCodeAt(buf.offset) !== 0x26 /*"&"*/
     ) {
-      throw new QueryError("Expected && operator", buf);
+      throw new QueryError("Expected && operator", {
+        ...buf,
+        code: QueryErrorCode.ExpectedOperator,
+      });
     }
     buf.offset += 1; // "&"
 
+    if (
+      buf.offset < buf.limit &&
+      buf.input.charCodeAt(buf.offset) === 0x26 /*"&"*/
+    ) {
+      throw new QueryError(
+        'Unsupported operator "&&&"; ' + formatSuggestions(["&&"]),
+        {
+          ...buf,
+          offset: buf.offset - 2,
+          code: QueryErrorCode.UnsupportedSyntax,
+          details: { suggestions: ["&&"] },
+        },
+      );
+    }
+
     parseBlankSpace(buf);
 
     const operand = parseBasicExpression(buf, context);
+    end = buf.offset;
     if (!Array.isArray(expr)) {
       expr = [expr];
     }
     expr.push(operand);
   }
 
+  // Leave trailing blank space to the enclosing syntax node,
+  // so that its source span ends with its last operand.
+  buf.offset = end;
+
   if (Array.isArray(expr)) {
-    return createAndExpression(expr);
+    return setSourceSpan(createAndExpression(expr), start, end, context);
   }
 
   return expr;
@@ -667,6 +1563,7 @@ function parseBasicExpression(
   // test-expr       = [logical-not-op S] (filter-query / function-expr)
 
   // [logical-not-op S]
+  const start = buf.offset;
   let unaryOp = -1;
   if (
     buf.offset < buf.limit &&
@@ -683,6 +1580,7 @@ function parseBasicExpression(
     expr = parseParenExpression(buf, context);
   } else {
     // comparison-expr = comparable [S comparison-op S comparable]
+    const exprStart = buf.offset;
     expr = parseComparable(buf, context);
     const exprOffset = buf.offset;
 
@@ -697,31 +1595,76 @@ function parseBasicExpression(
           throw new QueryError("Only singular queries can be compared", {
             ...buf,
             offset: exprOffset,
+            code: QueryErrorCode.NonSingularComparison,
           });
         }
-        checkComparableType(expr, buf);
+        checkComparableType(expr, buf, exprStart);
 
+        const rhsStart = buf.offset;
         const rhs = parseComparable(buf, context);
         if (rhs.kind === ExpressionKind.Query && !isSingularQuery(rhs)) {
-          throw new QueryError("Only singular queries can be compared", buf);
+          throw new QueryError("Only singular queries can be compared", {
+            ...buf,
+            code: QueryErrorCode.NonSingularComparison,
+          });
+        }
+        checkComparableType(rhs, buf, rhsStart);
+
+        expr = setSourceSpan(
+          createComparisonExpression(expr, operator, rhs),
+          start,
+          buf.offset,
+          context,
+        );
+      } else {
+        checkMembershipOperator(buf);
+        if (context.queryScope !== QueryScope.Argument) {
+          checkLogicalType(expr, buf, exprStart);
         }
-        checkComparableType(rhs, buf);
+      }
 
-        expr = createComparisonExpression(expr, operator, rhs);
-      } else if (context.queryScope !== QueryScope.Argument) {
-        checkLogicalType(expr, buf);
+      if (operator === undefined) {
+        // Leave trailing blank space to the enclosing expression,
+        // so that its source span ends with its last operand.
+        buf.offset = exprOffset;
       }
     } else if (context.queryScope !== QueryScope.Argument) {
-      checkLogicalType(expr, buf);
+      checkLogicalType(expr, buf, exprStart);
     }
   }
 
   if (unaryOp === 0x21 /*"!"*/) {
-    expr = createNotExpression(expr);
+    expr = setSourceSpan(createNotExpression(expr), start, buf.offset, context);
   }
   return expr;
 }
 
+/**
+ * Throws if a comparable is followed by the "in" operator that some
+ * JSONPath implementations use to test membership in a list of values.
+ *
+ * @internal
+ */
+function checkMembershipOperator(buf: InputBuffer): void {
+  if (
+    buf.offset + 1 < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x69 /*"i"*/ &&
+    buf.input.charCodeAt(buf.offset + 1) === 0x6e /*"n"*/ &&
+    (buf.offset + 2 >= buf.limit ||
+      !isIdentifierChar(buf.input.charCodeAt(buf.offset + 2)))
+  ) {
+    throw new QueryError(
+      'Unsupported operator "in"; compare with "==" for each value, ' +
+        'and combine the comparisons with "||"',
+      {
+        ...buf,
+        code: QueryErrorCode.UnsupportedSyntax,
+        details: { suggestions: ["==", "||"] },
+      },
+    );
+  }
+}
+
 /** @internal */
 function parseParenExpression(
   buf: InputBuffer,
@@ -731,7 +1674,10 @@ function parseParenExpression(
     buf.offset >= buf.limit ||
     buf.input.charCodeAt(buf.offset) !== 0x28 /*"("*/
   ) {
-    throw new QueryError("Expected open parenthesis", buf);
+    throw new QueryError("Expected open parenthesis", {
+      ...buf,
+      code: QueryErrorCode.ExpectedOpenParenthesis,
+    });
   }
   buf.offset += 1; // "("
 
@@ -744,7 +1690,10 @@ function parseParenExpression(
     buf.offset >= buf.limit ||
     buf.input.charCodeAt(buf.offset) !== 0x29 /*")"*/
   ) {
-    throw new QueryError("Expected close parenthesis", buf);
+    throw new QueryError("Expected close parenthesis", {
+      ...buf,
+      code: QueryErrorCode.ExpectedCloseParenthesis,
+    });
   }
   buf.offset += 1; // ")"
 
@@ -757,51 +1706,150 @@ function parseComparable(
   context: QueryContext,
 ): ComparableExpression {
   // comparable = literal / singular-query / function-expr
+  const start = buf.offset;
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
 
-  if (c === 0x40 /*"@"*/) {
-    buf.offset += 1; // "@"
+  if (c === 0x40 /*"@"*/ || c === 0x24 /*"$"*/) {
+    buf.offset += 1; // "@" / "$"
     const segments = parseSegments(buf, context);
-    return createQueryExpression("@", segments);
-  }
-
-  if (c === 0x24 /*"$"*/) {
-    buf.offset += 1; // "$"
-    const segments = parseSegments(buf, context);
-    return createQueryExpression("$", segments);
+    return setSourceSpan(
+      createQueryExpression(c === 0x40 /*"@"*/ ? "@" : "$", segments),
+      start,
+      buf.offset,
+      context,
+    );
   }
 
   if (c === 0x22 /*"\"*/ || c === 0x27 /*"'"*/) {
     const value = parseStringLiteral(buf);
-    return createLiteralExpression(value);
+    return setSourceSpan(
+      createLiteralExpression(value),
+      start,
+      buf.offset,
+      context,
+    );
   }
 
   if (c === 0x2d /*"-"*/ || isDigit(c)) {
     const value = parseNumber(buf);
-    return createLiteralExpression(value);
+    return setSourceSpan(
+      createLiteralExpression(value),
+      start,
+      buf.offset,
+      context,
+    );
   }
 
   if (!isLowercase(c)) {
-    throw new QueryError("Expected comparable expression", buf);
+    if (isUppercase(c)) {
+      checkUnknownName(buf, start, context);
+    }
+    throw new QueryError("Expected comparable expression", {
+      ...buf,
+      code: QueryErrorCode.ExpectedExpression,
+    });
   }
 
   const name = parseFunctionName(buf);
-  if (name === "true") {
-    return createLiteralExpression(true);
-  } else if (name === "false") {
-    return createLiteralExpression(false);
-  } else if (name === "null") {
-    return createLiteralExpression(null);
+  if (name === "true" || name === "false" || name === "null") {
+    const value =
+      name === "true" ? true
+      : name === "false" ? false
+      : null;
+    return setSourceSpan(
+      createLiteralExpression(value),
+      start,
+      buf.offset,
+      context,
+    );
   }
 
   const func = context.functionExtensions?.[name];
   if (func === undefined) {
-    throw new QueryError("Unknown function " + JSON.stringify(name), buf);
+    checkUnknownName(buf, start, context);
+    throw new QueryError("Unknown function " + JSON.stringify(name), {
+      ...buf,
+      offset: start,
+      code: QueryErrorCode.UnknownFunction,
+      details: { functionName: name },
+    });
   }
 
   // function-expr = function-name "(" S [function-argument
   //                    *(S "," S function-argument)] S ")"
-  return parseFunctionArguments(func, buf, context);
+  return setSourceSpan(
+    parseFunctionArguments(func, buf, context),
+    start,
+    buf.offset,
+    context,
+  );
+}
+
+/**
+ * Throws an error suggesting corrections for a misspelled literal keyword
+ * or function name at `start`, if any plausible corrections exist.
+ *
+ * @internal
+ */
+function checkUnknownName(
+  buf: InputBuffer,
+  start: number,
+  context: QueryContext,
+): void {
+  // Take the whole word, including characters that names can't contain.
+  let end = start;
+  while (
+    end < buf.limit &&
+    (isIdentifierChar(buf.input.charCodeAt(end)) ||
+      isUppercase(buf.input.charCodeAt(end)))
+  ) {
+    end += 1;
+  }
+  const name = buf.input.slice(start, end);
+
+  // Only function names are followed by an argument list.
+  const offset = buf.offset;
+  buf.offset = end;
+  parseBlankSpace(buf);
+  const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
+  buf.offset = offset;
+
+  if (c !== 0x28 /*"("*/) {
+    const keywords = suggestNames(name, ["true", "false", "null"]);
+    if (keywords.length !== 0) {
+      throw new QueryError(
+        "Unknown literal " +
+          JSON.stringify(name) +
+          "; " +
+          formatSuggestions(keywords),
+        {
+          ...buf,
+          offset: start,
+          code: QueryErrorCode.InvalidKeyword,
+          details: { suggestions: keywords },
+        },
+      );
+    }
+  }
+
+  const functionNames = suggestNames(
+    name,
+    Object.keys(context.functionExtensions ?? {}),
+  );
+  if (functionNames.length !== 0) {
+    throw new QueryError(
+      "Unknown function " +
+        JSON.stringify(name) +
+        "; " +
+        formatSuggestions(functionNames),
+      {
+        ...buf,
+        offset: start,
+        code: QueryErrorCode.UnknownFunction,
+        details: { functionName: name, suggestions: functionNames },
+      },
+    );
+  }
 }
 
 /** @internal */
@@ -813,15 +1861,41 @@ function parseComparisonOperator(
   //                 "<"  / ">"
   const c = buf.offset < buf.limit ? buf.input.charCodeAt(buf.offset) : -1;
 
+  const start = buf.offset;
+
   if (c === 0x3d /*"="*/) {
     buf.offset += 1;
+    if (
+      buf.offset < buf.limit &&
+      buf.input.charCodeAt(buf.offset) === 0x7e /*"~"*/
+    ) {
+      throw new QueryError(
+        'Unsupported operator "=~"; use match() or search() ' +
+          "to test a regular expression",
+        {
+          ...buf,
+          offset: start,
+          code: QueryErrorCode.UnsupportedSyntax,
+          details: { suggestions: ["match", "search"] },
+        },
+      );
+    }
     if (
       buf.offset >= buf.limit ||
       buf.input.charCodeAt(buf.offset) !== 0x3d /*"="*/
     ) {
-      throw new QueryError("Expected comparison operator", buf);
+      throw new QueryError(
+        "Expected comparison operator; " + formatSuggestions(["=="]),
+        {
+          ...buf,
+          offset: start,
+          code: QueryErrorCode.ExpectedOperator,
+          details: { suggestions: ["=="] },
+        },
+      );
     }
     buf.offset += 1;
+    checkStrictEqualityOperator(buf, start, "==");
     return ComparisonOperator.Equal;
   }
 
@@ -831,9 +1905,13 @@ function parseComparisonOperator(
       buf.offset >= buf.limit ||
       buf.input.charCodeAt(buf.offset) !== 0x3d /*"="*/
     ) {
-      throw new QueryError("Expected comparison operator", buf);
+      throw new QueryError("Expected comparison operator", {
+        ...buf,
+        code: QueryErrorCode.ExpectedOperator,
+      });
     }
     buf.offset += 1;
+    checkStrictEqualityOperator(buf, start, "!=");
     return ComparisonOperator.NotEqual;
   }
 
@@ -864,6 +1942,36 @@ function parseComparisonOperator(
   return undefined;
 }
 
+/**
+ * Throws if an equality operator is followed by another "=",
+ * as in the strict equality operators of JavaScript.
+ *
+ * @internal
+ */
+function checkStrictEqualityOperator(
+  buf: InputBuffer,
+  start: number,
+  operator: string,
+): void {
+  if (
+    buf.offset < buf.limit &&
+    buf.input.charCodeAt(buf.offset) === 0x3d /*"="*/
+  ) {
+    throw new QueryError(
+      "Unsupported operator " +
+        JSON.stringify(operator + "=") +
+        "; " +
+        formatSuggestions([operator]),
+      {
+        ...buf,
+        offset: start,
+        code: QueryErrorCode.UnsupportedSyntax,
+        details: { suggestions: [operator] },
+      },
+    );
+  }
+}
+
 /** @internal */
 function parseFunctionArguments(
   func: FunctionExtension,
@@ -877,13 +1985,17 @@ function parseFunctionArguments(
     buf.offset >= buf.limit ||
     buf.input.charCodeAt(buf.offset) !== 0x28 /*"("*/
   ) {
-    throw new QueryError("Expected function arguments", buf);
+    throw new QueryError("Expected function arguments", {
+      ...buf,
+      code: QueryErrorCode.ExpectedOpenParenthesis,
+    });
   }
   buf.offset += 1; // "("
 
   parseBlankSpace(buf);
 
   const args: Expression[] = [];
+  let regexp: IRegexpMatcher | undefined;
   while (true) {
     if (
       buf.offset < buf.limit &&
@@ -898,16 +2010,16 @@ function parseFunctionArguments(
         buf.offset >= buf.limit ||
         buf.input.charCodeAt(buf.offset) !== 0x2c /*","*/
       ) {
-        throw new QueryError("Expected comma", buf);
+        throw new QueryError("Expected comma", {
+          ...buf,
+          code: QueryErrorCode.ExpectedComma,
+        });
       }
       buf.offset += 1; // ","
       parseBlankSpace(buf);
     }
 
-    if (args.length >= func.parameterTypes.length) {
-      break;
-    }
-
+    const argOffset = buf.offset;
     const queryScope = context.queryScope;
     context.queryScope = QueryScope.Argument;
     let arg: Expression;
@@ -917,8 +2029,38 @@ function parseFunctionArguments(
       context.queryScope = queryScope;
     }
 
-    const parameterType = func.parameterTypes[args.length]!;
-    checkArgumentType(parameterType, arg, buf);
+    // Excess arguments are parsed so that the argument count check
+    // below can report how many arguments were received.
+    const parameterType = func.parameterTypes[args.length];
+    if (parameterType !== undefined) {
+      checkArgumentType(func, parameterType, arg, buf, argOffset);
+    }
+
+    // Validate and precompile literal regular expression patterns.
+    if (
+      (func === matchFunction || func === searchFunction) &&
+      args.length === 1 &&
+      arg.kind === ExpressionKind.Literal &&
+      typeof arg.value === "string"
+    ) {
+      try {
+        regexp = compileRegexp(
+          arg.value,
+          func === matchFunction,
+          context.safeRegexps === true,
+        );
+      } catch (error) {
+        throw new QueryError(
+          "Invalid I-Regexp pattern: " + (error as Error).message,
+          {
+            input: buf.input,
+            offset: argOffset,
+            code: QueryErrorCode.InvalidRegexp,
+            details: { functionName: func.name },
+          },
+        );
+      }
+    }
 
     args.push(arg);
 
@@ -934,22 +2076,43 @@ function parseFunctionArguments(
         ", but received " +
         args.length +
         " arguments",
-      buf,
+      {
+        ...buf,
+        code: QueryErrorCode.ArgumentCountMismatch,
+        details: {
+          functionName: func.name,
+          expectedCount: func.parameterTypes.length,
+          actualCount: args.length,
+        },
+      },
     );
   }
 
-  return createFunctionExpression(func, args);
+  return createFunctionExpression(func, args, regexp);
 }
 
 /** @internal */
-function checkLogicalType(expression: Expression, buf: InputBuffer): void {
+function checkLogicalType(
+  expression: Expression,
+  buf: InputBuffer,
+  offset: number,
+): void {
   if (expression.kind === ExpressionKind.Function) {
     const resultType = expression.func.resultType;
     switch (resultType) {
       case DeclaredType.Value:
         throw new QueryError(
           "ValueType function not supported in test expression",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: expression.func.name,
+              expectedType: "LogicalType",
+              actualType: "ValueType",
+            },
+          },
         );
       case DeclaredType.Logical:
       case DeclaredType.Nodes:
@@ -961,7 +2124,11 @@ function checkLogicalType(expression: Expression, buf: InputBuffer): void {
 }
 
 /** @internal */
-function checkComparableType(expression: Expression, buf: InputBuffer): void {
+function checkComparableType(
+  expression: Expression,
+  buf: InputBuffer,
+  offset: number,
+): void {
   if (expression.kind === ExpressionKind.Function) {
     const resultType = expression.func.resultType;
     switch (resultType) {
@@ -970,12 +2137,30 @@ function checkComparableType(expression: Expression, buf: InputBuffer): void {
       case DeclaredType.Logical:
         throw new QueryError(
           "LogicalType function not supported in comparison expression",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: expression.func.name,
+              expectedType: "ValueType",
+              actualType: "LogicalType",
+            },
+          },
         );
       case DeclaredType.Nodes:
         throw new QueryError(
           "NodesType function not supported in comparison expression",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: expression.func.name,
+              expectedType: "ValueType",
+              actualType: "NodesType",
+            },
+          },
         );
       default:
         throw new TypeError("Invalid DeclaredType: " + resultType);
@@ -985,20 +2170,22 @@ function checkComparableType(expression: Expression, buf: InputBuffer): void {
 
 /** @internal */
 function checkArgumentType(
+  func: FunctionExtension,
   parameterType: DeclaredType,
   expression: Expression,
   buf: InputBuffer,
+  offset: number,
 ): void {
   if (expression.kind === ExpressionKind.Function) {
     switch (parameterType) {
       case DeclaredType.Value:
-        checkValueArgumentType(expression, buf);
+        checkValueArgumentType(func, expression, buf, offset);
         break;
       case DeclaredType.Logical:
-        checkLogicalArgumentType(expression, buf);
+        checkLogicalArgumentType(func, expression, buf, offset);
         break;
       case DeclaredType.Nodes:
-        checkNodesArgumentType(expression, buf);
+        checkNodesArgumentType(func, expression, buf, offset);
         break;
       default:
         throw new TypeError("Invalid DeclaredType: " + parameterType);
@@ -1012,13 +2199,31 @@ function checkArgumentType(
         if (!isSingularQuery(expression)) {
           throw new QueryError(
             "Expected singular query expression in ValueType argument position",
-            buf,
+            {
+              ...buf,
+              offset,
+              code: QueryErrorCode.TypeMismatch,
+              details: {
+                functionName: func.name,
+                expectedType: "ValueType",
+                actualType: "NodesType",
+              },
+            },
           );
         }
       } else if (expression.kind !== ExpressionKind.Literal) {
         throw new QueryError(
           "Expected literal expression in ValueType argument position",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: func.name,
+              expectedType: "ValueType",
+              actualType: "LogicalType",
+            },
+          },
         );
       }
       break;
@@ -1026,7 +2231,16 @@ function checkArgumentType(
       if (expression.kind === ExpressionKind.Literal) {
         throw new QueryError(
           "Expected logical expression in LogicalType argument position",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: func.name,
+              expectedType: "LogicalType",
+              actualType: "ValueType",
+            },
+          },
         );
       }
       break;
@@ -1034,7 +2248,19 @@ function checkArgumentType(
       if (expression.kind !== ExpressionKind.Query) {
         throw new QueryError(
           "Expected query expression in NodesType argument position",
-          buf,
+          {
+            ...buf,
+            offset,
+            code: QueryErrorCode.TypeMismatch,
+            details: {
+              functionName: func.name,
+              expectedType: "NodesType",
+              actualType:
+                expression.kind === ExpressionKind.Literal ?
+                  "ValueType"
+                : "LogicalType",
+            },
+          },
         );
       }
       break;
@@ -1045,8 +2271,10 @@ function checkArgumentType(
 
 /** @internal */
 function checkValueArgumentType(
+  func: FunctionExtension,
   expression: FunctionExpression,
   buf: InputBuffer,
+  offset: number,
 ): void {
   const resultType = expression.func.resultType;
   switch (resultType) {
@@ -1055,12 +2283,30 @@ function checkValueArgumentType(
     case DeclaredType.Logical:
       throw new QueryError(
         "LogicalType function not supported in ValueType argument position",
-        buf,
+        {
+          ...buf,
+          offset,
+          code: QueryErrorCode.TypeMismatch,
+          details: {
+            functionName: func.name,
+            expectedType: "ValueType",
+            actualType: "LogicalType",
+          },
+        },
       );
     case DeclaredType.Nodes:
       throw new QueryError(
         "NodesType function not supported in ValueType argument position",
-        buf,
+        {
+          ...buf,
+          offset,
+          code: QueryErrorCode.TypeMismatch,
+          details: {
+            functionName: func.name,
+            expectedType: "ValueType",
+            actualType: "NodesType",
+          },
+        },
       );
     default:
       throw new TypeError("Invalid DeclaredType: " + resultType);
@@ -1069,15 +2315,26 @@ function checkValueArgumentType(
 
 /** @internal */
 function checkLogicalArgumentType(
+  func: FunctionExtension,
   expression: FunctionExpression,
   buf: InputBuffer,
+  offset: number,
 ): void {
   const resultType = expression.func.resultType;
   switch (resultType) {
     case DeclaredType.Value:
       throw new QueryError(
         "ValueType function not supported in LogicalType argument position",
-        buf,
+        {
+          ...buf,
+          offset,
+          code: QueryErrorCode.TypeMismatch,
+          details: {
+            functionName: func.name,
+            expectedType: "LogicalType",
+            actualType: "ValueType",
+          },
+        },
       );
     case DeclaredType.Logical:
     case DeclaredType.Nodes:
@@ -1089,20 +2346,40 @@ function checkLogicalArgumentType(
 
 /** @internal */
 function checkNodesArgumentType(
+  func: FunctionExtension,
   expression: FunctionExpression,
   buf: InputBuffer,
+  offset: number,
 ): void {
   const resultType = expression.func.resultType;
   switch (resultType) {
     case DeclaredType.Value:
       throw new QueryError(
         "ValueType function not supported in NodesType argument position",
-        buf,
+        {
+          ...buf,
+          offset,
+          code: QueryErrorCode.TypeMismatch,
+          details: {
+            functionName: func.name,
+            expectedType: "NodesType",
+            actualType: "ValueType",
+          },
+        },
       );
     case DeclaredType.Logical:
       throw new QueryError(
         "LogicalType function not supported in NodesType argument position",
-        buf,
+        {
+          ...buf,
+          offset,
+          code: QueryErrorCode.TypeMismatch,
+          details: {
+            functionName: func.name,
+            expectedType: "NodesType",
+            actualType: "LogicalType",
+          },
+        },
       );
     case DeclaredType.Nodes:
       break;
@@ -1123,7 +2400,10 @@ function parseFunctionName(buf: InputBuffer): string {
     buf.offset >= buf.limit ||
     !isLowercase(buf.input.charCodeAt(buf.offset))
   ) {
-    throw new QueryError("Expected identifier", buf);
+    throw new QueryError("Expected identifier", {
+      ...buf,
+      code: QueryErrorCode.ExpectedFunctionName,
+    });
   }
   buf.offset += 1;
 
@@ -1146,7 +2426,10 @@ export function parseShorthandName(buf: InputBuffer): string {
     buf.offset >= buf.limit ||
     !isNameFirstChar(buf.input.charCodeAt(buf.offset))
   ) {
-    throw new QueryError("Expected name", buf);
+    throw new QueryError("Expected name", {
+      ...buf,
+      code: QueryErrorCode.ExpectedName,
+    });
   }
   buf.offset += 1;
 
@@ -1182,7 +2465,10 @@ function parseInt(buf: InputBuffer): number {
   }
 
   if (c < 0x31 /*"1"*/ || c > 0x39 /*"9"*/) {
-    throw new QueryError("Expected digit", buf);
+    throw new QueryError("Expected digit", {
+      ...buf,
+      code: QueryErrorCode.ExpectedDigit,
+    });
   }
   buf.offset += 1;
   let value = c - 0x30; /*"0"*/
@@ -1213,7 +2499,10 @@ function parseNumber(buf: InputBuffer): number {
   if (c === 0x30 /*"0"*/) {
     buf.offset += 1;
   } else if (c < 0x31 /*"1"*/ || c > 0x39 /*"9"*/) {
-    throw new QueryError("Expected digit", buf);
+    throw new QueryError("Expected digit", {
+      ...buf,
+      code: QueryErrorCode.ExpectedDigit,
+    });
   } else {
     buf.offset += 1;
 
@@ -1235,7 +2524,10 @@ function parseNumber(buf: InputBuffer): number {
         buf.offset >= buf.limit ||
         !isDigit(buf.input.charCodeAt(buf.offset))
       ) {
-        throw new QueryError("Expected fractional part", buf);
+        throw new QueryError("Expected fractional part", {
+          ...buf,
+          code: QueryErrorCode.InvalidNumber,
+        });
       }
       buf.offset += 1; // digit
 
@@ -1265,7 +2557,10 @@ function parseNumber(buf: InputBuffer): number {
         buf.offset >= buf.limit ||
         !isDigit(buf.input.charCodeAt(buf.offset))
       ) {
-        throw new QueryError("Expected exponent part", buf);
+        throw new QueryError("Expected exponent part", {
+          ...buf,
+          code: QueryErrorCode.InvalidNumber,
+        });
       }
       buf.offset += 1; // digit
 
@@ -1299,7 +2594,10 @@ function parseStringLiteral(buf: InputBuffer): string {
       quote = 0x27;
       break;
     default:
-      throw new QueryError("Expected string literal", buf);
+      throw new QueryError("Expected string literal", {
+        ...buf,
+        code: QueryErrorCode.ExpectedStringLiteral,
+      });
   }
 
   // double-quoted = unescaped /
@@ -1382,7 +2680,10 @@ function parseStringLiteral(buf: InputBuffer): string {
           buf.offset += 1;
           break;
         default:
-          throw new QueryError("Invalid escape sequence", buf);
+          throw new QueryError("Invalid escape sequence", {
+            ...buf,
+            code: QueryErrorCode.InvalidEscapeSequence,
+          });
       }
 
       // hexchar        = non-surrogate /
@@ -1404,24 +2705,36 @@ function parseStringLiteral(buf: InputBuffer): string {
           buf.input.charCodeAt(buf.offset) !== 0x5c || // "\"
           buf.input.charCodeAt(buf.offset + 1) !== 0x75 // "u"
         ) {
-          throw new QueryError("Expected low surrogate", buf);
+          throw new QueryError("Expected low surrogate", {
+            ...buf,
+            code: QueryErrorCode.InvalidSurrogate,
+          });
         }
         buf.offset += 2; // "\\u"
 
         const c1 = parseHexCodePoint(buf);
         if (c1 < 0xdc00 || c1 > 0xdfff) {
-          throw new QueryError("Invalid low surrogate", buf);
+          throw new QueryError("Invalid low surrogate", {
+            ...buf,
+            code: QueryErrorCode.InvalidSurrogate,
+          });
         }
         buf.offset += 4; // low-surrogate
 
         result += String.fromCharCode(c0, c1);
         continue;
       } else {
-        throw new QueryError("Unexpected low surrogate", buf);
+        throw new QueryError("Unexpected low surrogate", {
+          ...buf,
+          code: QueryErrorCode.InvalidSurrogate,
+        });
       }
     }
 
-    throw new QueryError("Invalid string literal character", buf);
+    throw new QueryError("Invalid string literal character", {
+      ...buf,
+      code: QueryErrorCode.InvalidStringCharacter,
+    });
   }
 
   return result;
@@ -1449,7 +2762,10 @@ function parseHexChar(buf: InputBuffer): number {
     buf.offset += 1;
     return c - 0x57 /*"W"*/;
   }
-  throw new QueryError("Expected hex digit", buf);
+  throw new QueryError("Expected hex digit", {
+    ...buf,
+    code: QueryErrorCode.ExpectedDigit,
+  });
 }
 
 /** @internal */
@@ -1496,6 +2812,33 @@ function isLowercase(c: number): boolean {
   return c >= 0x61 /*"a"*/ && c <= 0x7a /*"z"*/;
 }
 
+/** @internal */
+function isNormalHexChar(c2: number, c3: number): boolean {
+  if (c2 === 0x31 /*"1"*/) {
+    return isNormalHexDigit(c3);
+  } else if (c2 !== 0x30 /*"0"*/) {
+    return false;
+  }
+  if (c3 >= 0x30 /*"0"*/ && c3 <= 0x37 /*"7"*/) {
+    return true;
+  }
+  return c3 === 0x62 /*"b"*/ || c3 === 0x65 /*"e"*/ || c3 === 0x66 /*"f"*/;
+}
+
+/** @internal */
+function isNormalHexDigit(c: number): boolean {
+  // normal-HEXDIG = DIGIT / %x61-66 ; "0"-"9", "a"-"f"
+  if (isDigit(c)) {
+    return true;
+  }
+  return c >= 0x61 /*"a"*/ && c <= 0x66 /*"f"*/;
+}
+
+/** @internal */
+function getNormalHexValue(c: number): number {
+  return isDigit(c) ? c - 0x30 /*"0"*/ : c - 0x57 /*"W"*/;
+}
+
 /** @internal */
 function isDigit(c: number): boolean {
   return c >= 0x30 /*"0"*/ && c <= 0x39 /*"9"*/;
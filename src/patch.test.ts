@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { diffQuery } from "tool-query";
+
+void suite("Diff queries", () => {
+  void test("should replace changed nodes", () => {
+    const value = { items: [{ status: "stale" }, { status: "fresh" }] };
+    assert.deepEqual(
+      diffQuery("$.items[*].status", value, (status) =>
+        status === "stale" ? "expired" : status,
+      ),
+      [{ op: "replace", path: "/items/0/status", value: "expired" }],
+    );
+    assert.deepEqual(value, {
+      items: [{ status: "stale" }, { status: "fresh" }],
+    });
+  });
+
+  void test("should remove nodes for which the updater returns undefined", () => {
+    const value = { a: [1, 2, 3, 4], b: { "c/d": 1, e: 2 } };
+    assert.deepEqual(
+      diffQuery("$.a[?@ > 1]", value, () => undefined),
+      [
+        { op: "remove", path: "/a/3" },
+        { op: "remove", path: "/a/2" },
+        { op: "remove", path: "/a/1" },
+      ],
+    );
+    assert.deepEqual(
+      diffQuery("$.b['c/d']", value, () => undefined),
+      [{ op: "remove", path: "/b/c~1d" }],
+    );
+  });
+
+  void test("should diff members of updated objects", () => {
+    const value = [
+      { id: 1, status: "stale", owner: "a" },
+      { id: 2, status: "ok" },
+    ];
+    assert.deepEqual(
+      diffQuery("$..[?@.status == 'stale']", value, (node) => {
+        const { owner, ...rest } = node as { owner: string };
+        return { ...rest, status: "archived", archivedBy: owner };
+      }),
+      [
+        { op: "replace", path: "/0/status", value: "archived" },
+        { op: "remove", path: "/0/owner" },
+        { op: "add", path: "/0/archivedBy", value: "a" },
+      ],
+    );
+  });
+
+  void test("should emit no operations for unchanged nodes", () => {
+    const value = { a: { b: [1, 2] } };
+    assert.deepEqual(
+      diffQuery("$..*", value, (node) => node),
+      [],
+    );
+    assert.deepEqual(
+      diffQuery("$.a", value, () => ({ b: [1, 2] })),
+      [],
+    );
+  });
+
+  void test("should replace arrays whose length changes", () => {
+    const value = { a: [1, 2] };
+    assert.deepEqual(
+      diffQuery("$.a", value, () => [1, 2, 3]),
+      [{ op: "replace", path: "/a", value: [1, 2, 3] }],
+    );
+  });
+
+  void test("should not remove the root node", () => {
+    assert.throws(() => diffQuery("$", {}, () => undefined), TypeError);
+  });
+});
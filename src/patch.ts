@@ -0,0 +1,142 @@
+import type { Node } from "tool-json";
+import { isArray, isObject, equal } from "tool-json";
+import type { Query } from "./query.ts";
+import type { QueryContextOptions } from "./context.ts";
+import { formatReferenceToken } from "./format.ts";
+import type { NodeUpdater } from "./mutate.ts";
+import { updateQuery } from "./mutate.ts";
+
+/**
+ * An RFC 6902 JSON Patch operation.
+ *
+ * @see [RFC 6902 §4](https://datatracker.ietf.org/doc/html/rfc6902#section-4)
+ * @category Patch
+ */
+export type JsonPatchOperation =
+  | JsonPatchAddOperation
+  | JsonPatchRemoveOperation
+  | JsonPatchReplaceOperation;
+
+/**
+ * A JSON Patch operation that adds a value to an object or array.
+ *
+ * @category Patch
+ */
+export interface JsonPatchAddOperation {
+  readonly op: "add";
+
+  readonly path: string;
+
+  readonly value: Node;
+}
+
+/**
+ * A JSON Patch operation that removes the value at the target location.
+ *
+ * @category Patch
+ */
+export interface JsonPatchRemoveOperation {
+  readonly op: "remove";
+
+  readonly path: string;
+}
+
+/**
+ * A JSON Patch operation that replaces the value at the target location.
+ *
+ * @category Patch
+ */
+export interface JsonPatchReplaceOperation {
+  readonly op: "replace";
+
+  readonly path: string;
+
+  readonly value: Node;
+}
+
+/**
+ * Returns the JSON Patch operations that transform the root node into the
+ * result of `updateQuery(query, root, updater)`, without modifying the
+ * root node. An updater that returns `undefined` removes the node.
+ *
+ * Operations are emitted for the members and elements that actually
+ * change, so an updater that returns a modified copy of an object yields
+ * `add`, `remove` and `replace` operations for the affected members rather
+ * than a replacement of the whole object. Array elements are removed in
+ * descending index order, so the operations can be applied in sequence.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws TypeError if the updater removes the root node.
+ * @category Patch
+ */
+export function diffQuery(
+  query: Query | string,
+  root: Node,
+  updater: NodeUpdater,
+  options?: QueryContextOptions,
+): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  const result = updateQuery(query, root, updater, options);
+  if (result === undefined && root !== undefined) {
+    throw new TypeError("Cannot remove the root node");
+  }
+  diffNode(root, result, "", operations);
+  return operations;
+}
+
+/**
+ * Appends the operations that transform `source` into `target`.
+ * Unchanged subtrees are skipped by identity, which makes diffing
+ * the output of `updateQuery` proportional to the size of the update.
+ *
+ * @internal
+ */
+function diffNode(
+  source: Node,
+  target: Node,
+  path: string,
+  operations: JsonPatchOperation[],
+): void {
+  if (Object.is(source, target)) {
+    return;
+  }
+
+  if (isArray(source) && isArray(target)) {
+    if (source.length === target.length) {
+      // Descending order keeps earlier indices valid after removals.
+      for (let i = source.length - 1; i >= 0; i -= 1) {
+        const elementPath = path + "/" + i;
+        if (target[i] === undefined) {
+          operations.push({ op: "remove", path: elementPath });
+        } else {
+          diffNode(source[i], target[i], elementPath, operations);
+        }
+      }
+      return;
+    }
+  } else if (isObject(source) && isObject(target)) {
+    for (const key of Object.keys(source)) {
+      const memberPath = path + "/" + formatReferenceToken(key);
+      if (!Object.hasOwn(target, key) || target[key] === undefined) {
+        operations.push({ op: "remove", path: memberPath });
+      } else {
+        diffNode(source[key], target[key], memberPath, operations);
+      }
+    }
+    for (const key of Object.keys(target)) {
+      if (!Object.hasOwn(source, key) && target[key] !== undefined) {
+        const memberPath = path + "/" + formatReferenceToken(key);
+        operations.push({
+          op: "add",
+          path: memberPath,
+          value: target[key],
+        });
+      }
+    }
+    return;
+  }
+
+  if (!equal(source, target)) {
+    operations.push({ op: "replace", path, value: target });
+  }
+}
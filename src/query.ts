@@ -1,6 +1,7 @@
 import type { Segment } from "./segment.ts";
 import { isSingularSegment } from "./segment.ts";
 import type { QueryExpression } from "./expression.ts";
+import type { SyntaxNode } from "./span.ts";
 
 /**
  * An [RFC 9535](https://datatracker.ietf.org/doc/html/rfc9535) JSONPath
@@ -9,7 +10,7 @@ import type { QueryExpression } from "./expression.ts";
  * @see [RFC 9535 §2.1](https://datatracker.ietf.org/doc/html/rfc9535#section-2.1)
  * @category Query
  */
-export interface Query {
+export interface Query extends SyntaxNode {
   readonly segments: readonly Segment[];
 }
 
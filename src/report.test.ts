@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import {
+  CycleMode,
+  QueryError,
+  evaluateQuery,
+  formatQueryDiagnostic,
+  formatQueryError,
+  parseQuery,
+  parseQueryWithDiagnostics,
+} from "tool-query";
+
+void suite("Query error reports", () => {
+  const catchError = (f: () => unknown): QueryError => {
+    try {
+      f();
+    } catch (error) {
+      assert.ok(error instanceof QueryError);
+      return error;
+    }
+    assert.fail("Expected a QueryError");
+  };
+
+  void test("should point at the offending character", () => {
+    const error = catchError(() => parseQuery("$.store.book[?@.price < ]"));
+    assert.equal(
+      formatQueryError(error),
+      [
+        "error: Expected comparable expression (line 1, column 25)",
+        "",
+        "  $.store.book[?@.price < ]",
+        "                          ^",
+        "",
+        "hint: Comparisons need a query, literal or function on each side, as in @.price < 10.",
+      ].join("\n"),
+    );
+  });
+
+  void test("should describe function errors from their details", () => {
+    const error = catchError(() => parseQuery("$[?length(@.a, @.b) > 1]"));
+    assert.ok(
+      formatQueryError(error).endsWith("hint: length() takes 1 argument."),
+    );
+
+    const unknown = catchError(() => parseQuery("$[?blt(1)]"));
+    assert.ok(formatQueryError(unknown).includes("\n  $[?blt(1)]\n     ^\n"));
+  });
+
+  void test("should show the line containing the error", () => {
+    const error = catchError(() => parseQuery("$.a\n  [?@.b == ]"));
+    assert.ok(
+      formatQueryError(error).startsWith(
+        "error: Expected comparable expression (line 2, column 12)\n\n" +
+          "    [?@.b == ]\n" +
+          "             ^\n",
+      ),
+    );
+  });
+
+  void test("should truncate long lines around the error", () => {
+    const input = "$." + "a".repeat(100) + "[?@.b == ]." + "c".repeat(100);
+    const error = catchError(() => parseQuery(input));
+    const [, , excerpt, caret] = formatQueryError(error, {
+      maxWidth: 40,
+    }).split("\n");
+    assert.equal(
+      excerpt,
+      "  ..." + "a".repeat(11) + "[?@.b == ]." + "c".repeat(18) + "...",
+    );
+    assert.equal(caret, "  " + " ".repeat(23) + "^");
+  });
+
+  void test("should render errors without an input position", () => {
+    const root: { self?: unknown } = {};
+    root.self = root;
+    const error = catchError(() =>
+      evaluateQuery("$..*", root, { cycleMode: CycleMode.Throw }),
+    );
+    assert.equal(formatQueryError(error), "error: " + (error as Error).message);
+  });
+
+  void test("should highlight reports with ANSI colors", () => {
+    const error = catchError(() => parseQuery("$[?@.a == ]"));
+    const report = formatQueryError(error, { color: true });
+    assert.ok(report.startsWith("\x1b[1m\x1b[31merror:\x1b[0m "));
+    assert.ok(report.includes("\n            \x1b[1m\x1b[31m^\x1b[0m\n"));
+    assert.equal(report.replace(/\x1b\[\d+m/g, ""), formatQueryError(error));
+  });
+
+  void test("should underline the span of a diagnostic", () => {
+    const input = "$.a[?@.b == 1 &&& @.c]";
+    const [diagnostic] = parseQueryWithDiagnostics(input).diagnostics;
+    assert.ok(diagnostic !== undefined);
+    const report = formatQueryDiagnostic(input, {
+      ...diagnostic,
+      span: { start: 14, end: 17 },
+    });
+    assert.ok(report.includes("\n  " + input + "\n" + " ".repeat(16) + "^^^"));
+  });
+});
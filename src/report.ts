@@ -0,0 +1,283 @@
+import type { QueryError, QueryErrorDetails } from "./error.ts";
+import { QueryErrorCode } from "./error.ts";
+import type { QueryDiagnostic } from "./diagnostic.ts";
+import { DiagnosticSeverity } from "./diagnostic.ts";
+
+/**
+ * Options for rendering query errors and diagnostics as text.
+ *
+ * @category Format
+ */
+export interface QueryReportOptions {
+  /**
+   * Whether to highlight the report with ANSI terminal escape codes.
+   * Defaults to `false`.
+   */
+  readonly color?: boolean | undefined;
+
+  /**
+   * The maximum number of characters of input to show in the excerpt.
+   * Longer lines are truncated around the offending characters.
+   * Defaults to 80.
+   */
+  readonly maxWidth?: number | undefined;
+}
+
+/**
+ * Renders a query error as a multi-line report for display to end users.
+ * The report shows the error message, an excerpt of the input with a
+ * caret under the offending character, and a hint for fixing the problem,
+ * if one is known. Errors without an input position render as their
+ * message and hint alone.
+ *
+ * @category Format
+ */
+export function formatQueryError(
+  error: QueryError,
+  options?: QueryReportOptions,
+): string {
+  const message = (error as Error).message;
+  const hint = getQueryErrorHint(error.code, error.details);
+  if (error.input === undefined || error.offset === undefined) {
+    return formatReport(message, undefined, 0, 0, hint, "error", options);
+  }
+  const start = Math.min(error.offset, error.input.length);
+  return formatReport(
+    message,
+    error.input,
+    start,
+    start,
+    hint,
+    "error",
+    options,
+  );
+}
+
+/**
+ * Renders a query diagnostic as a multi-line report for display to end
+ * users, with carets under the characters of its span.
+ *
+ * @category Format
+ */
+export function formatQueryDiagnostic(
+  input: string,
+  diagnostic: QueryDiagnostic,
+  options?: QueryReportOptions,
+): string {
+  const start = Math.min(diagnostic.span.start, input.length);
+  const end = Math.min(Math.max(diagnostic.span.end, start), input.length);
+  return formatReport(
+    diagnostic.message,
+    input,
+    start,
+    end,
+    getQueryErrorHint(diagnostic.code, undefined),
+    getSeverityLabel(diagnostic.severity),
+    options,
+  );
+}
+
+/**
+ * ANSI terminal escape codes used to highlight reports.
+ *
+ * @internal
+ */
+const ansi = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+} as const;
+
+/** @internal */
+function formatReport(
+  message: string,
+  input: string | undefined,
+  start: number,
+  end: number,
+  hint: string | undefined,
+  label: string,
+  options: QueryReportOptions | undefined,
+): string {
+  const color = options?.color === true;
+  const paint = (style: string, text: string): string =>
+    color ? style + text + ansi.reset : text;
+  const labelStyle =
+    label === "error" ? ansi.red
+    : label === "warning" ? ansi.yellow
+    : ansi.cyan;
+
+  let report = paint(ansi.bold + labelStyle, label + ":") + " ";
+  report += paint(ansi.bold, message);
+
+  if (input !== undefined) {
+    // Locate the line of input that contains the start offset.
+    let lineStart = 0;
+    let lineNumber = 1;
+    for (let i = 0; i < start; i += 1) {
+      const c = input.charCodeAt(i);
+      if (c === 0x0a /*"\n"*/ || c === 0x0d /*"\r"*/) {
+        if (c === 0x0d /*"\r"*/ && input.charCodeAt(i + 1) === 0x0a) {
+          i += 1;
+        }
+        lineStart = i + 1;
+        lineNumber += 1;
+      }
+    }
+    let lineEnd = lineStart;
+    while (
+      lineEnd < input.length &&
+      input.charCodeAt(lineEnd) !== 0x0a /*"\n"*/ &&
+      input.charCodeAt(lineEnd) !== 0x0d /*"\r"*/
+    ) {
+      lineEnd += 1;
+    }
+
+    // Measure columns in code points, showing tabs as single spaces,
+    // so that carets line up with the characters above them.
+    const line = Array.from(
+      input.slice(lineStart, lineEnd).replace(/\t/g, " "),
+    );
+    let column = Array.from(input.slice(lineStart, start)).length;
+    const lineColumn = column + 1;
+    let width = Math.max(
+      1,
+      Array.from(input.slice(start, Math.min(end, lineEnd))).length,
+    );
+
+    // Truncate long lines around the offending characters.
+    const maxWidth = Math.max(options?.maxWidth ?? 80, 20);
+    let excerpt = line;
+    let prefix = "";
+    let suffix = "";
+    if (line.length > maxWidth) {
+      const first = Math.max(
+        0,
+        Math.min(column - (maxWidth >> 1), line.length - maxWidth),
+      );
+      excerpt = line.slice(first, first + maxWidth);
+      if (first > 0) {
+        prefix = "...";
+      }
+      if (first + maxWidth < line.length) {
+        suffix = "...";
+      }
+      column -= first;
+      width = Math.max(1, Math.min(width, maxWidth - column));
+    }
+
+    report +=
+      " " +
+      paint(ansi.dim, "(line " + lineNumber + ", column " + lineColumn + ")");
+    report += "\n\n";
+    report += "  " + prefix + excerpt.join("") + suffix + "\n";
+    report += "  " + " ".repeat(prefix.length + column);
+    report += paint(ansi.bold + labelStyle, "^".repeat(width));
+  }
+
+  if (hint !== undefined) {
+    report += "\n" + (input !== undefined ? "\n" : "");
+    report += paint(ansi.bold + ansi.cyan, "hint:") + " " + hint;
+  }
+
+  return report;
+}
+
+/** @internal */
+function getSeverityLabel(severity: DiagnosticSeverity): string {
+  switch (severity) {
+    case DiagnosticSeverity.Error:
+      return "error";
+    case DiagnosticSeverity.Warning:
+      return "warning";
+    case DiagnosticSeverity.Information:
+      return "info";
+    case DiagnosticSeverity.Hint:
+      return "hint";
+    default:
+      throw new TypeError("Invalid DiagnosticSeverity: " + severity);
+  }
+}
+
+/**
+ * Returns advice for fixing the kind of problem described by a query
+ * error code, or `undefined` if no advice is known.
+ *
+ * @internal
+ */
+function getQueryErrorHint(
+  code: QueryErrorCode | undefined,
+  details: QueryErrorDetails | undefined,
+): string | undefined {
+  switch (code) {
+    case QueryErrorCode.ExpectedRootIdentifier:
+      return 'Queries begin with "$", as in $.store.book[0].';
+    case QueryErrorCode.ExpectedSegment:
+    case QueryErrorCode.InvalidSegment:
+      return "Select members with .name or ['name'], and elements with [0].";
+    case QueryErrorCode.ExpectedSelector:
+    case QueryErrorCode.InvalidSelector:
+      return "Brackets may contain names ('a'), indexes (0), slices (1:3), wildcards (*) and filters (?@.a).";
+    case QueryErrorCode.ExpectedCloseBracket:
+      return 'Close the bracketed selection with "]".';
+    case QueryErrorCode.ExpectedComma:
+      return 'Separate selectors, and function arguments, with ",".';
+    case QueryErrorCode.UnterminatedStringLiteral:
+      return "Close the string with the same kind of quote that opens it.";
+    case QueryErrorCode.InvalidStringCharacter:
+      return "Control characters in strings must be escaped, as in \\n or \\u001f.";
+    case QueryErrorCode.InvalidEscapeSequence:
+      return "Strings may contain the escapes \\b \\f \\n \\r \\t \\/ \\\\ \\uXXXX, and an escaped quote.";
+    case QueryErrorCode.ExpectedExpression:
+      return "Comparisons need a query, literal or function on each side, as in @.price < 10.";
+    case QueryErrorCode.ExpectedOperator:
+      return "Combine expressions with ==, !=, <, <=, >, >=, && and ||.";
+    case QueryErrorCode.ExpectedCloseParenthesis:
+      return 'Close each "(" with a matching ")".';
+    case QueryErrorCode.NonSingularComparison:
+      return "Only queries that select at most one node, such as @.a or @[0], can be compared.";
+    case QueryErrorCode.UnknownFunction:
+      return "Function names are case-sensitive. The standard functions are length(), count(), match(), search() and value().";
+    case QueryErrorCode.InvalidKeyword:
+      return "The literals true, false and null are written in lowercase.";
+    case QueryErrorCode.ArgumentCountMismatch:
+      if (
+        details?.functionName !== undefined &&
+        details.expectedCount !== undefined
+      ) {
+        return (
+          details.functionName +
+          "() takes " +
+          details.expectedCount +
+          (details.expectedCount === 1 ? " argument." : " arguments.")
+        );
+      }
+      return undefined;
+    case QueryErrorCode.TypeMismatch:
+      return getTypeMismatchHint(details);
+    case QueryErrorCode.InvalidRegexp:
+      return "Patterns must be I-Regexps (RFC 9485), which don't support anchors, lookaround or backreferences.";
+    default:
+      return undefined;
+  }
+}
+
+/** @internal */
+function getTypeMismatchHint(
+  details: QueryErrorDetails | undefined,
+): string | undefined {
+  switch (details?.expectedType) {
+    case "ValueType":
+      return details.actualType === "NodesType" ?
+          "Use a singular query such as @.a, or a function like count() that takes nodes."
+        : "Logical results can't be compared or passed as values; use them as tests on their own.";
+    case "LogicalType":
+      return "Compare the value with ==, !=, <, <=, > or >= to produce a logical result.";
+    case "NodesType":
+      return "Pass a query, such as @.* or @..a.";
+    default:
+      return undefined;
+  }
+}
@@ -10,6 +10,18 @@ void suite("Child segments", () => {
     assert.deepEqual(evaluateQuery("$[0, 0]", value), ["a", "a"]);
   });
 
+  void test("should order results by input node, then by selector", () => {
+    const value = [
+      [1, 2],
+      [3, 4],
+    ] as const;
+    assert.deepEqual(evaluateQuery("$[*][1, 0]", value), [2, 1, 4, 3]);
+    assert.deepEqual(
+      evaluateQuery("$[*]['b', 'a']", [{ a: 1, b: 2 }, { a: 3 }]),
+      [2, 1, 3],
+    );
+  });
+
   void test("should transcode child segments", () => {
     assert.equal(formatQuery(parseQuery("$[0, 3]")), "$[0, 3]");
     assert.equal(formatQuery(parseQuery("$[0:2, 5]")), "$[0:2, 5]");
@@ -1,5 +1,6 @@
 import type { Selector } from "./selector.ts";
 import { isSingularSelector } from "./selector.ts";
+import type { SyntaxNode } from "./span.ts";
 
 /**
  * The syntax kind of a segment.
@@ -41,7 +42,7 @@ export function isSingularSegment(segment: Segment): boolean {
  *
  * @category Segment
  */
-export interface ChildSegment {
+export interface ChildSegment extends SyntaxNode {
   readonly kind: typeof SegmentKind.Child;
 
   readonly selectors: readonly Selector[];
@@ -63,7 +64,7 @@ export function createChildSegment(
  *
  * @category Segment
  */
-export interface DescendantSegment {
+export interface DescendantSegment extends SyntaxNode {
   readonly kind: typeof SegmentKind.Descendant;
 
   readonly selectors: readonly Selector[];
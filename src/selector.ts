@@ -1,4 +1,5 @@
 import type { Expression } from "./expression.ts";
+import type { SyntaxNode } from "./span.ts";
 
 /**
  * The syntax kind of a selector.
@@ -50,7 +51,7 @@ export function isSingularSelector(selector: Selector): boolean {
  *
  * @category Selector
  */
-export interface NameSelector {
+export interface NameSelector extends SyntaxNode {
   readonly kind: typeof SelectorKind.Name;
 
   readonly name: string;
@@ -70,7 +71,7 @@ export function createNameSelector(name: string): NameSelector {
  *
  * @category Selector
  */
-export interface WildcardSelector {
+export interface WildcardSelector extends SyntaxNode {
   readonly kind: typeof SelectorKind.Wildcard;
 }
 
@@ -95,7 +96,7 @@ export type ArraySelector = IndexSelector | SliceSelector;
  *
  * @category Selector
  */
-export interface IndexSelector {
+export interface IndexSelector extends SyntaxNode {
   readonly kind: typeof SelectorKind.Index;
 
   readonly index: number;
@@ -115,7 +116,7 @@ export function createIndexSelector(index: number): IndexSelector {
  *
  * @category Selector
  */
-export interface SliceSelector {
+export interface SliceSelector extends SyntaxNode {
   readonly kind: typeof SelectorKind.Slice;
 
   readonly start: number | undefined;
@@ -143,7 +144,7 @@ export function createSliceSelector(
  *
  * @category Selector
  */
-export interface FilterSelector {
+export interface FilterSelector extends SyntaxNode {
   readonly kind: typeof SelectorKind.Filter;
 
   readonly expression: Expression;
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { SyntaxNode } from "tool-query";
+import {
+  ExpressionKind,
+  SelectorKind,
+  createQueryCache,
+  parseQuery,
+  parseImplicitQuery,
+  parseExpression,
+} from "tool-query";
+
+void suite("Source spans", () => {
+  const input = "$.a[?@.b == 'x' && !match(@.c, 'y'), 1:3]..*";
+  const text = (node: SyntaxNode): string =>
+    input.slice(node.span!.start, node.span!.end);
+
+  void test("should not record spans by default", () => {
+    const query = parseQuery(input);
+    assert.equal(query.span, undefined);
+    assert.equal(query.segments[0]!.span, undefined);
+  });
+
+  void test("should record spans of queries, segments and selectors", () => {
+    const query = parseQuery(input, { sourceSpans: true });
+    assert.equal(text(query), input);
+    assert.deepEqual(query.segments.map(text), [
+      ".a",
+      "[?@.b == 'x' && !match(@.c, 'y'), 1:3]",
+      "..*",
+    ]);
+    assert.deepEqual(query.segments[0]!.selectors.map(text), ["a"]);
+    assert.deepEqual(query.segments[1]!.selectors.map(text), [
+      "?@.b == 'x' && !match(@.c, 'y')",
+      "1:3",
+    ]);
+    assert.deepEqual(query.segments[2]!.selectors.map(text), ["*"]);
+  });
+
+  void test("should end array selector spans at their last token", () => {
+    const spans = (input: string): string[] =>
+      parseQuery(input, { sourceSpans: true }).segments[0]!.selectors.map(
+        (selector) => input.slice(selector.span!.start, selector.span!.end),
+      );
+    assert.deepEqual(spans("$[ 1 : 2 ]"), ["1 : 2"]);
+    assert.deepEqual(spans("$[ -1 ]"), ["-1"]);
+    assert.deepEqual(spans("$[ 1: , ::-1 ]"), ["1:", "::-1"]);
+  });
+
+  void test("should record spans of expressions", () => {
+    const query = parseQuery(input, { sourceSpans: true });
+    const filter = query.segments[1]!.selectors[0]!;
+    assert.ok(filter.kind === SelectorKind.Filter);
+    const and = filter.expression;
+    assert.ok(and.kind === ExpressionKind.And);
+    assert.equal(text(and), "@.b == 'x' && !match(@.c, 'y')");
+    const [comparison, not] = and.operands;
+    assert.ok(comparison?.kind === ExpressionKind.Comparison);
+    assert.equal(text(comparison), "@.b == 'x'");
+    assert.equal(text(comparison.lhs), "@.b");
+    assert.equal(text(comparison.rhs), "'x'");
+    assert.ok(not?.kind === ExpressionKind.Not);
+    assert.equal(text(not), "!match(@.c, 'y')");
+    assert.ok(not.operand.kind === ExpressionKind.Function);
+    assert.equal(text(not.operand), "match(@.c, 'y')");
+    assert.deepEqual(not.operand.args.map(text), ["@.c", "'y'"]);
+  });
+
+  void test("should record spans relative to the parsed input", () => {
+    const expression = parseExpression("(@.a || true)", {
+      sourceSpans: true,
+    });
+    assert.deepEqual(expression.span, { start: 1, end: 12 });
+
+    const filter = parseQuery("$[?@.a || @.b && @.c ]", {
+      sourceSpans: true,
+    }).segments[0]!.selectors[0]!;
+    assert.deepEqual(filter.span, { start: 2, end: 20 });
+
+    const query = parseImplicitQuery("a.b", { sourceSpans: true });
+    assert.deepEqual(
+      query.segments.map((segment) => segment.span),
+      [
+        { start: 0, end: 1 },
+        { start: 1, end: 3 },
+      ],
+    );
+  });
+
+  void test("should bypass the query cache", () => {
+    const queryCache = createQueryCache();
+    parseQuery("$.a", { queryCache });
+    assert.deepEqual(
+      parseQuery("$.a", { queryCache, sourceSpans: true }).span,
+      {
+        start: 0,
+        end: 3,
+      },
+    );
+  });
+});
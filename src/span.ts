@@ -0,0 +1,30 @@
+/**
+ * The characters of a query string from which a syntax node was parsed.
+ *
+ * @category Span
+ */
+export interface SourceSpan {
+  /**
+   * The offset of the first character of the syntax node in the input.
+   */
+  readonly start: number;
+
+  /**
+   * The offset just past the last character of the syntax node
+   * in the input.
+   */
+  readonly end: number;
+}
+
+/**
+ * A node of a parsed JSONPath syntax tree.
+ *
+ * @category Span
+ */
+export interface SyntaxNode {
+  /**
+   * The characters of the input from which the node was parsed. Spans are
+   * recorded only when parsing with the `sourceSpans` option.
+   */
+  readonly span?: SourceSpan;
+}
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { Readable } from "node:stream";
+import { evaluateQuery, streamQuery } from "tool-query";
+
+void suite("Streaming evaluation", () => {
+  const root = {
+    store: {
+      book: [
+        { title: "Sayings", price: 8.95, tags: ["reference"] },
+        { title: "Sword", price: 12.99, tags: [] },
+        { title: "Moby Dick", price: 8.99, isbn: "0-553-21311-3" },
+        { title: "Rings", price: 22.99, isbn: "0-395-19395-8" },
+      ],
+      bicycle: { color: "red", price: 399 },
+    },
+    été: ["café", -1.5e3, true, false, null],
+  };
+  const text = JSON.stringify(root, null, 2);
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const values: T[] = [];
+    for await (const value of iterable) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  // Splits text into chunks of the given size, to split tokens across writes.
+  const chunks = (input: string, size: number): string[] => {
+    const output: string[] = [];
+    for (let i = 0; i < input.length; i += size) {
+      output.push(input.slice(i, i + size));
+    }
+    return output;
+  };
+
+  void test("should select the same nodes as evaluateQuery", async () => {
+    const queries = [
+      "$",
+      "$.store.book[*].title",
+      "$.store.book[1:3]",
+      "$.store.book[-1].title",
+      "$.store.book[::-2].price",
+      "$.store.book[?@.price < 10].title",
+      "$.store.book[?@.isbn].tags",
+      "$.store.book[?length(@.tags) > 0].title",
+      "$..price",
+      "$..[?@ == 'red']",
+      "$['été'][*]",
+      "$.missing",
+    ];
+    for (const query of queries) {
+      const expected = evaluateQuery(query, root);
+      for (const size of [1, 3, 64, text.length]) {
+        assert.deepEqual(
+          await collect(streamQuery(query, chunks(text, size))),
+          expected,
+          query + " in chunks of " + size,
+        );
+      }
+    }
+  });
+
+  void test("should yield nodes in document order", async () => {
+    assert.deepEqual(
+      await collect(streamQuery("$['b','a']", '{"a":1,"b":2}')),
+      [1, 2],
+    );
+    assert.deepEqual(
+      await collect(streamQuery("$..*", '{"a":{"b":1},"c":2}')),
+      [{ b: 1 }, 1, 2],
+    );
+  });
+
+  void test("should yield nodes before the source is exhausted", async () => {
+    let done = false;
+    async function* source(): AsyncGenerator<string> {
+      yield '[{"id":1},';
+      yield '{"id":2},';
+      await Promise.resolve();
+      done = true;
+      yield '{"id":3}]';
+    }
+    const iterator = streamQuery("$[*].id", source());
+    assert.deepEqual(await iterator.next(), { value: 1, done: false });
+    assert.equal(done, false);
+    assert.deepEqual(await collect(iterator), [2, 3]);
+    assert.equal(done, true);
+  });
+
+  void test("should yield nodes within filtered nodes while they're read", async () => {
+    let done = false;
+    async function* source(): AsyncGenerator<string> {
+      yield '{"items":[{"id":1},';
+      yield '{"id":2},';
+      await Promise.resolve();
+      done = true;
+      yield '{"id":3}]}';
+    }
+    const iterator = streamQuery("$..[?@.id]", source());
+    assert.deepEqual(await iterator.next(), { value: { id: 1 }, done: false });
+    assert.equal(done, false);
+    assert.deepEqual(await collect(iterator), [{ id: 2 }, { id: 3 }]);
+    assert.equal(done, true);
+    assert.deepEqual(
+      await collect(streamQuery("$..[?@.b]", '{"a":{"b":{"b":1}}}')),
+      [{ b: 1 }, { b: { b: 1 } }],
+    );
+  });
+
+  void test("should read byte streams", async () => {
+    const bytes = new TextEncoder().encode(text);
+    const expected = evaluateQuery("$['été'][0]", root);
+    assert.deepEqual(
+      await collect(
+        streamQuery(
+          "$['été'][0]",
+          Readable.from(chunks(text, 5).map((chunk) => Buffer.from(chunk))),
+        ),
+      ),
+      expected,
+    );
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split a multi-byte character across chunks.
+        for (let i = 0; i < bytes.length; i += 7) {
+          controller.enqueue(bytes.slice(i, i + 7));
+        }
+        controller.close();
+      },
+    });
+    assert.deepEqual(
+      await collect(streamQuery("$['été'][0]", stream)),
+      expected,
+    );
+  });
+
+  void test("should reject malformed JSON text", async () => {
+    for (const input of [
+      '{"a":1,}',
+      "[1 2]",
+      '{"a"}',
+      "[1,",
+      "01",
+      "tru",
+      "[] []",
+    ]) {
+      await assert.rejects(collect(streamQuery("$..*", input)), SyntaxError);
+    }
+  });
+
+  void test("should reject absolute queries in filters", async () => {
+    await assert.rejects(
+      collect(streamQuery("$[?@ == $[0]]", "[1, 2, 1]")),
+      TypeError,
+    );
+  });
+});
@@ -0,0 +1,652 @@
+import type { Node, NodeList } from "tool-json";
+import type { Query } from "./query.ts";
+import type { Segment } from "./segment.ts";
+import { SegmentKind } from "./segment.ts";
+import type { Selector, FilterSelector } from "./selector.ts";
+import { SelectorKind } from "./selector.ts";
+import type { Expression } from "./expression.ts";
+import { ExpressionKind } from "./expression.ts";
+import { jsonNodeAdapter } from "./adapter.ts";
+import type { QueryContext, QueryContextOptions } from "./context.ts";
+import { coerceQueryContext } from "./context.ts";
+import { visitQueryNode, checkQueryInterrupt } from "./limit.ts";
+import { parseQuery } from "./parse.ts";
+import { evaluateSegment, evaluateExpression } from "./evaluate.ts";
+
+/**
+ * A source of JSON text: a string, an iterable of string chunks, or
+ * an asynchronous iterable or web stream of string or UTF-8 byte chunks,
+ * such as a Node.js `Readable` or the body of a `fetch` response.
+ *
+ * @category Stream
+ */
+export type JsonSource =
+  | string
+  | Iterable<string>
+  | AsyncIterable<string | Uint8Array>
+  | ReadableStream<string | Uint8Array>;
+
+/**
+ * Evaluates a JSONPath query expression over JSON text as it's read from
+ * a source, yielding each resulting node as soon as it's complete.
+ * The document is never built in full: containers whose members can't
+ * be selected are discarded as they're parsed, and only the nodes that
+ * match the query, or that a filter or a negative index must see in
+ * full, are kept in memory while they're evaluated.
+ *
+ * Nodes are yielded in document order, which differs from the order
+ * returned by `evaluateQuery` when selectors or descendant segments
+ * select nodes out of document order. A filter can only be applied to a
+ * node once it's complete, so nodes selected from within a filtered node
+ * are yielded before the filtered node itself, while it's still being read.
+ * Filter expressions may only contain relative queries, since the root
+ * node isn't available until the source has been read in full.
+ *
+ * @throws QueryError if the query string is malformed.
+ * @throws TypeError if a filter expression contains an absolute query.
+ * @throws SyntaxError if the source isn't well-formed JSON text.
+ * @category Stream
+ */
+export async function* streamQuery(
+  query: Query | string,
+  source: JsonSource,
+  options?: QueryContextOptions,
+): AsyncGenerator<Node, void, undefined> {
+  const context = coerceQueryContext(options);
+
+  if (typeof query === "string") {
+    query = parseQuery(query, context);
+  }
+
+  if (hasAbsoluteQuery(query.segments)) {
+    throw new TypeError(
+      "Absolute queries in filter expressions can't be streamed",
+    );
+  }
+
+  // Streamed nodes are always plain JSON values, and each stream
+  // tracks its own evaluation state.
+  const runContext: QueryContext = {
+    ...context,
+    nodeAdapter: jsonNodeAdapter,
+    queryArgument: undefined,
+    queryResults: new Map(),
+    queryNodeCount: 0,
+  };
+
+  const matches: NodeList = [];
+  const parser = createJsonParser(
+    createStreamEvaluator(query.segments, runContext, matches),
+  );
+
+  for await (const chunk of readJsonText(source)) {
+    checkQueryInterrupt(runContext);
+    parser.write(chunk);
+    yield* matches.splice(0);
+  }
+  parser.end();
+  yield* matches.splice(0);
+}
+
+/**
+ * Receives the structure of JSON text as it's parsed.
+ *
+ * @internal
+ */
+interface JsonHandler {
+  value(value: Node): void;
+  start(array: boolean): void;
+  key(name: string): void;
+  end(): void;
+}
+
+/**
+ * A container whose members are being streamed, along with the indexes
+ * of the query segments to which it's an input. A container that's also
+ * being built in full keeps its value, along with the query segments
+ * to evaluate against it once it's complete.
+ *
+ * @internal
+ */
+interface StreamFrame {
+  readonly array: boolean;
+  readonly states: readonly number[];
+  readonly value: Node[] | Record<string, Node> | undefined;
+  readonly built: readonly number[];
+  readonly tests: readonly (readonly [number, FilterSelector])[];
+  index: number;
+  name: string | undefined;
+}
+
+/**
+ * Creates a JSON handler that evaluates query segments over the parsed
+ * structure, appending each complete result to `matches`.
+ *
+ * @category Stream
+ * @internal
+ */
+function createStreamEvaluator(
+  segments: readonly Segment[],
+  context: QueryContext,
+  matches: NodeList,
+): JsonHandler {
+  const frames: StreamFrame[] = [];
+
+  // Returns the segments to which the next node is an input, and the
+  // filters that decide whether it's an input to the segments that
+  // follow them.
+  const select = (): [number[], (readonly [number, FilterSelector])[]] => {
+    const frame = frames[frames.length - 1];
+    if (frame === undefined) {
+      return [[0], []];
+    }
+
+    let key: string | number;
+    if (frame.array) {
+      key = frame.index;
+      frame.index += 1;
+    } else {
+      key = frame.name!;
+    }
+
+    const states: number[] = [];
+    const tests: (readonly [number, FilterSelector])[] = [];
+    const descendants: number[] = [];
+    for (const state of frame.states) {
+      const segment = segments[state]!;
+      if (segment.kind === SegmentKind.Descendant) {
+        descendants.push(state);
+      }
+      for (const selector of segment.selectors) {
+        if (selector.kind === SelectorKind.Filter) {
+          tests.push([state, selector]);
+        } else if (selectsKey(selector, key)) {
+          states.push(state + 1);
+        }
+      }
+    }
+    // Nodes selected from the node itself precede its descendants.
+    states.push(...descendants);
+    if (states.length !== 0 || tests.length !== 0) {
+      visitQueryNode(context);
+    }
+    return [states, tests];
+  };
+
+  const finish = (
+    value: Node,
+    states: readonly number[],
+    tests: readonly (readonly [number, FilterSelector])[],
+  ): void => {
+    for (const [state, selector] of tests) {
+      if (evaluateExpression(selector.expression, value, context)) {
+        matches.push(...evaluateSegments(segments, state + 1, value, context));
+      }
+    }
+    for (const state of states) {
+      matches.push(...evaluateSegments(segments, state, value, context));
+    }
+  };
+
+  const append = (frame: StreamFrame, value: Node): void => {
+    const container = frame.value!;
+    if (Array.isArray(container)) {
+      container.push(value);
+    } else if (frame.name === "__proto__") {
+      Object.defineProperty(container, frame.name, {
+        value,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    } else {
+      container[frame.name!] = value;
+    }
+  };
+
+  return {
+    value(value: Node): void {
+      const parent = frames[frames.length - 1];
+      const [states, tests] = select();
+      if (parent?.value !== undefined) {
+        append(parent, value);
+      }
+      finish(value, states, tests);
+    },
+
+    start(array: boolean): void {
+      const parent = frames[frames.length - 1];
+      const [states, tests] = select();
+
+      let streamed: readonly number[] = states;
+      let built: readonly number[] = [];
+      if (
+        states.some(
+          (state) =>
+            state === segments.length ||
+            (array && needsLength(segments[state]!)),
+        )
+      ) {
+        // The node is a result, or its length is needed, so every segment
+        // is evaluated against it once it's complete.
+        streamed = [];
+        built = states;
+      }
+
+      // A node tested by a filter is built in full for the filter, while
+      // its members keep streaming through the remaining segments.
+      let value: Node[] | Record<string, Node> | undefined;
+      if (
+        parent?.value !== undefined ||
+        built.length !== 0 ||
+        tests.length !== 0
+      ) {
+        value = array ? [] : {};
+        if (parent?.value !== undefined) {
+          append(parent, value);
+        }
+      }
+
+      frames.push({
+        array,
+        states: streamed,
+        value,
+        built,
+        tests,
+        index: 0,
+        name: undefined,
+      });
+    },
+
+    key(name: string): void {
+      frames[frames.length - 1]!.name = name;
+    },
+
+    end(): void {
+      const frame = frames.pop()!;
+      if (frame.value !== undefined) {
+        finish(frame.value, frame.built, frame.tests);
+      }
+    },
+  };
+}
+
+/**
+ * Returns `true` if a non-filter selector selects the child with the
+ * given key without needing to know the length of its parent.
+ *
+ * @internal
+ */
+function selectsKey(selector: Selector, key: string | number): boolean {
+  switch (selector.kind) {
+    case SelectorKind.Name:
+      return key === selector.name;
+    case SelectorKind.Wildcard:
+      return true;
+    case SelectorKind.Index:
+      return key === selector.index;
+    case SelectorKind.Slice: {
+      const start = selector.start ?? 0;
+      const step = selector.step ?? 1;
+      return (
+        typeof key === "number" &&
+        step > 0 &&
+        start >= 0 &&
+        key >= start &&
+        (selector.end === undefined || key < selector.end) &&
+        (key - start) % step === 0
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns `true` if a segment has an index or slice selector that depends
+ * on the length of the array it selects from.
+ *
+ * @internal
+ */
+function needsLength(segment: Segment): boolean {
+  return segment.selectors.some(
+    (selector) =>
+      (selector.kind === SelectorKind.Index && selector.index < 0) ||
+      (selector.kind === SelectorKind.Slice &&
+        ((selector.start ?? 0) < 0 ||
+          (selector.end ?? 0) < 0 ||
+          (selector.step ?? 1) < 0)),
+  );
+}
+
+/** @internal */
+function evaluateSegments(
+  segments: readonly Segment[],
+  state: number,
+  node: Node,
+  context: QueryContext,
+): NodeList {
+  let nodes: NodeList = [node];
+  for (let i = state; i < segments.length; i += 1) {
+    nodes = evaluateSegment(segments[i]!, nodes, context);
+  }
+  return nodes;
+}
+
+/** @internal */
+function hasAbsoluteQuery(segments: readonly Segment[]): boolean {
+  return segments.some((segment) =>
+    segment.selectors.some(
+      (selector) =>
+        selector.kind === SelectorKind.Filter &&
+        hasAbsoluteQueryExpression(selector.expression),
+    ),
+  );
+}
+
+/** @internal */
+function hasAbsoluteQueryExpression(expression: Expression): boolean {
+  switch (expression.kind) {
+    case ExpressionKind.Or:
+    case ExpressionKind.And:
+      return expression.operands.some(hasAbsoluteQueryExpression);
+    case ExpressionKind.Comparison:
+      return (
+        hasAbsoluteQueryExpression(expression.lhs) ||
+        hasAbsoluteQueryExpression(expression.rhs)
+      );
+    case ExpressionKind.Not:
+      return hasAbsoluteQueryExpression(expression.operand);
+    case ExpressionKind.Query:
+      return (
+        expression.identifier === "$" || hasAbsoluteQuery(expression.segments)
+      );
+    case ExpressionKind.Function:
+      return expression.args.some(hasAbsoluteQueryExpression);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Reads the chunks of a JSON source as strings, decoding byte chunks
+ * as UTF-8.
+ *
+ * @category Stream
+ * @internal
+ */
+export async function* readJsonText(
+  source: JsonSource,
+): AsyncGenerator<string, void, undefined> {
+  if (typeof source === "string") {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  if ("getReader" in source) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const result = await reader.read();
+        if (result.done) {
+          break;
+        }
+        yield decode(result.value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) {
+      yield decode(chunk);
+    }
+  }
+
+  const rest = decoder.decode();
+  if (rest.length !== 0) {
+    yield rest;
+  }
+}
+
+/** @internal */
+const JsonState = {
+  Value: 0,
+  ValueOrEnd: 1,
+  Key: 2,
+  KeyOrEnd: 3,
+  Colon: 4,
+  CommaOrEnd: 5,
+  Done: 6,
+} as const;
+
+/**
+ * Creates an incremental JSON parser that reports the structure of the
+ * text written to it to a handler. Tokens may be split across writes.
+ *
+ * @category Stream
+ * @internal
+ */
+function createJsonParser(handler: JsonHandler): {
+  write(text: string): void;
+  end(): void;
+} {
+  // The kinds of the open containers: `true` for arrays.
+  const stack: boolean[] = [];
+  let state: number = JsonState.Value;
+  // Unconsumed text, which starts with an incomplete token.
+  let buf = "";
+  // The offset of `buf` in the source text.
+  let offset = 0;
+  // How far an incomplete string token has been scanned.
+  let scanned = 0;
+
+  const unexpected = (pos: number): SyntaxError =>
+    new SyntaxError(
+      (pos < buf.length ?
+        "Unexpected character " + JSON.stringify(buf[pos])
+      : "Unexpected end of JSON input") +
+        " at offset " +
+        (offset + pos),
+    );
+
+  const afterValue = (): void => {
+    state = stack.length === 0 ? JsonState.Done : JsonState.CommaOrEnd;
+  };
+
+  // Returns the end of the string token at `pos`, or -1 if incomplete.
+  const scanString = (pos: number): number => {
+    let i = pos + Math.max(scanned, 1);
+    while (i < buf.length) {
+      const c = buf.charCodeAt(i);
+      if (c === 0x22 /*"\""*/) {
+        scanned = 0;
+        return i + 1;
+      } else if (c === 0x5c /*"\\"*/) {
+        if (i + 1 >= buf.length) {
+          break;
+        }
+        i += 2;
+      } else if (c < 0x20) {
+        throw unexpected(i);
+      } else {
+        i += 1;
+      }
+    }
+    scanned = i - pos;
+    return -1;
+  };
+
+  const parseString = (pos: number, end: number): string => {
+    try {
+      return JSON.parse(buf.slice(pos, end)) as string;
+    } catch {
+      throw new SyntaxError("Invalid JSON string at offset " + (offset + pos));
+    }
+  };
+
+  const process = (final: boolean): void => {
+    let pos = 0;
+    while (true) {
+      let c = buf.charCodeAt(pos);
+      while (
+        c === 0x20 /*" "*/ ||
+        c === 0x09 /*"\t"*/ ||
+        c === 0x0a /*"\n"*/ ||
+        c === 0x0d /*"\r"*/
+      ) {
+        pos += 1;
+        c = buf.charCodeAt(pos);
+      }
+      if (pos >= buf.length) {
+        break;
+      }
+
+      if (state === JsonState.Done) {
+        throw unexpected(pos);
+      } else if (state === JsonState.Colon) {
+        if (c !== 0x3a /*":"*/) {
+          throw unexpected(pos);
+        }
+        pos += 1;
+        state = JsonState.Value;
+        continue;
+      } else if (state === JsonState.CommaOrEnd) {
+        if (c === 0x2c /*","*/) {
+          pos += 1;
+          state = stack[stack.length - 1]! ? JsonState.Value : JsonState.Key;
+          continue;
+        }
+      }
+
+      if (
+        (c === 0x5d /*"]"*/ &&
+          (state === JsonState.ValueOrEnd ||
+            (state === JsonState.CommaOrEnd && stack[stack.length - 1]!))) ||
+        (c === 0x7d /*"}"*/ &&
+          (state === JsonState.KeyOrEnd ||
+            (state === JsonState.CommaOrEnd && !stack[stack.length - 1]!)))
+      ) {
+        pos += 1;
+        stack.pop();
+        handler.end();
+        afterValue();
+        continue;
+      }
+
+      if (state === JsonState.Key || state === JsonState.KeyOrEnd) {
+        if (c !== 0x22 /*"\""*/) {
+          throw unexpected(pos);
+        }
+        const end = scanString(pos);
+        if (end < 0) {
+          break;
+        }
+        handler.key(parseString(pos, end));
+        pos = end;
+        state = JsonState.Colon;
+        continue;
+      }
+
+      if (state !== JsonState.Value && state !== JsonState.ValueOrEnd) {
+        throw unexpected(pos);
+      }
+
+      if (c === 0x7b /*"{"*/ || c === 0x5b /*"["*/) {
+        const array = isArrayStart(c);
+        pos += 1;
+        stack.push(array);
+        handler.start(array);
+        state = array ? JsonState.ValueOrEnd : JsonState.KeyOrEnd;
+      } else if (c === 0x22 /*"\""*/) {
+        const end = scanString(pos);
+        if (end < 0) {
+          break;
+        }
+        handler.value(parseString(pos, end));
+        pos = end;
+        afterValue();
+      } else if (c === 0x2d /*"-"*/ || isDigit(c)) {
+        let end = pos + 1;
+        while (end < buf.length && isNumberChar(buf.charCodeAt(end))) {
+          end += 1;
+        }
+        if (end >= buf.length && !final) {
+          break;
+        }
+        const text = buf.slice(pos, end);
+        if (
+          !/^-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][-+]?[0-9]+)?$/.test(text)
+        ) {
+          throw new SyntaxError(
+            "Invalid JSON number at offset " + (offset + pos),
+          );
+        }
+        handler.value(Number(text));
+        pos = end;
+        afterValue();
+      } else {
+        const literal =
+          c === 0x74 /*"t"*/ ? "true"
+          : c === 0x66 /*"f"*/ ? "false"
+          : c === 0x6e /*"n"*/ ? "null"
+          : undefined;
+        if (literal === undefined) {
+          throw unexpected(pos);
+        }
+        const text = buf.slice(pos, pos + literal.length);
+        if (text !== literal) {
+          if (!final && literal.startsWith(text)) {
+            break;
+          }
+          throw unexpected(pos);
+        }
+        handler.value(JSON.parse(literal) as Node);
+        pos += literal.length;
+        afterValue();
+      }
+    }
+
+    buf = buf.slice(pos);
+    offset += pos;
+  };
+
+  return {
+    write(text: string): void {
+      buf += text;
+      process(false);
+    },
+
+    end(): void {
+      process(true);
+      if (buf.length !== 0 || state !== JsonState.Done) {
+        throw unexpected(buf.length);
+      }
+    },
+  };
+}
+
+/** @internal */
+function isArrayStart(c: number): boolean {
+  return c === 0x5b /*"["*/;
+}
+
+/** @internal */
+function isDigit(c: number): boolean {
+  return c >= 0x30 /*"0"*/ && c <= 0x39 /*"9"*/;
+}
+
+/** @internal */
+function isNumberChar(c: number): boolean {
+  return (
+    isDigit(c) ||
+    c === 0x2b /*"+"*/ ||
+    c === 0x2d /*"-"*/ ||
+    c === 0x2e /*"."*/ ||
+    c === 0x45 /*"E"*/ ||
+    c === 0x65 /*"e"*/
+  );
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { FunctionExtension, QueryContextOptions } from "tool-query";
+import {
+  DeclaredType,
+  QueryError,
+  QueryErrorCode,
+  parseQuery,
+} from "tool-query";
+
+void suite("Query error suggestions", () => {
+  const parseError = (
+    input: string,
+    options?: QueryContextOptions,
+  ): QueryError => {
+    try {
+      parseQuery(input, options);
+    } catch (error) {
+      assert.ok(error instanceof QueryError);
+      return error;
+    }
+    assert.fail("Expected " + JSON.stringify(input) + " to be invalid");
+  };
+
+  void test("should suggest registered function names", () => {
+    const error = parseError("$[?lenght(@.a) > 1]");
+    assert.equal(
+      (error as Error).message,
+      'Unknown function "lenght"; did you mean "length"?',
+    );
+    assert.equal(error.code, QueryErrorCode.UnknownFunction);
+    assert.deepEqual(error.details, {
+      functionName: "lenght",
+      suggestions: ["length"],
+    });
+    assert.equal(error.offset, 3);
+
+    assert.deepEqual(parseError("$[?Count(@.*) > 1]").details?.suggestions, [
+      "count",
+    ]);
+    assert.equal(
+      parseError("$[?frobnicate(@.a)]").details?.suggestions,
+      undefined,
+    );
+  });
+
+  void test("should suggest function extensions", () => {
+    const sizeFunction = {
+      name: "size",
+      parameterTypes: [DeclaredType.Value],
+      resultType: DeclaredType.Value,
+      evaluate: () => 0,
+    } as const satisfies FunctionExtension;
+    const functionExtensions = [sizeFunction];
+    assert.deepEqual(
+      parseError("$[?szie(@) > 1]", { functionExtensions }).details
+        ?.suggestions,
+      ["size"],
+    );
+  });
+
+  void test("should suggest literal keywords", () => {
+    for (const [input, keyword] of [
+      ["$[?@.a == True]", "true"],
+      ["$[?@.a == NULL]", "null"],
+      ["$[?@.a != fals]", "false"],
+    ] as const) {
+      const error = parseError(input);
+      assert.equal(error.code, QueryErrorCode.InvalidKeyword);
+      assert.deepEqual(error.details, { suggestions: [keyword] });
+      assert.equal(error.offset, 10);
+    }
+  });
+
+  void test("should explain unsupported operators", () => {
+    for (const [input, offset, suggestions] of [
+      ["$[?@.a =~ 'x']", 7, ["match", "search"]],
+      ["$[?@.a in [1, 2]]", 7, ["==", "||"]],
+      ["$[?@.a &&& @.b]", 7, ["&&"]],
+      ["$[?@.a ||| @.b]", 7, ["||"]],
+      ["$[?@.a === 1]", 7, ["=="]],
+      ["$[?@.a !== 1]", 7, ["!="]],
+    ] as const) {
+      const error = parseError(input);
+      assert.equal(error.code, QueryErrorCode.UnsupportedSyntax);
+      assert.equal(error.offset, offset);
+      assert.deepEqual(error.details?.suggestions, suggestions);
+    }
+    assert.deepEqual(parseError("$[?@.a = 1]").details?.suggestions, ["=="]);
+  });
+
+  void test("should accept names that resemble unsupported syntax", () => {
+    assert.doesNotThrow(() => parseQuery("$[?@.a == 1 && @.index]"));
+    assert.doesNotThrow(() => parseQuery("$[?@.in == 1]"));
+  });
+});
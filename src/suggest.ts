@@ -0,0 +1,91 @@
+/**
+ * Returns the candidates that most closely match a misspelled name,
+ * ordered from closest to farthest. Names are compared case-insensitively
+ * by edit distance, counting transposed characters as a single edit;
+ * candidates too far from the name to be a plausible correction are
+ * omitted.
+ *
+ * @category Parse
+ * @internal
+ */
+export function suggestNames(
+  name: string,
+  candidates: Iterable<string>,
+  maxCount: number = 3,
+): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+  const matches: { candidate: string; distance: number }[] = [];
+  for (const candidate of candidates) {
+    const distance = getEditDistance(target, candidate.toLowerCase());
+    if (distance <= maxDistance && candidate !== name) {
+      matches.push({ candidate, distance });
+    }
+  }
+  matches.sort(
+    (a, b) =>
+      a.distance - b.distance ||
+      (a.candidate < b.candidate ? -1
+      : a.candidate > b.candidate ? 1
+      : 0),
+  );
+  return matches.slice(0, maxCount).map((match) => match.candidate);
+}
+
+/**
+ * Formats a list of suggested names as a question to append
+ * to an error message.
+ *
+ * @category Parse
+ * @internal
+ */
+export function formatSuggestions(suggestions: readonly string[]): string {
+  let list = "";
+  for (let i = 0; i < suggestions.length; i += 1) {
+    if (i !== 0) {
+      list += i === suggestions.length - 1 ? " or " : ", ";
+    }
+    list += JSON.stringify(suggestions[i]);
+  }
+  return "did you mean " + list + "?";
+}
+
+/**
+ * Returns the optimal string alignment distance between two strings:
+ * the number of insertions, deletions, substitutions, and transpositions
+ * of adjacent characters needed to turn one string into the other.
+ *
+ * @internal
+ */
+function getEditDistance(a: string, b: string): number {
+  // Keep the last two rows of the distance matrix.
+  let prev2: number[] = [];
+  let prev: number[] = [];
+  let row: number[] = [];
+  for (let j = 0; j <= b.length; j += 1) {
+    prev[j] = j;
+  }
+  for (let i = 1; i <= a.length; i += 1) {
+    row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      let distance = Math.min(
+        prev[j]! + 1, // deletion
+        row[j - 1]! + 1, // insertion
+        prev[j - 1]! + cost, // substitution
+      );
+      if (
+        i > 1 &&
+        j > 1 &&
+        a.charCodeAt(i - 1) === b.charCodeAt(j - 2) &&
+        a.charCodeAt(i - 2) === b.charCodeAt(j - 1)
+      ) {
+        distance = Math.min(distance, prev2[j - 2]! + 1); // transposition
+      }
+      row[j] = distance;
+    }
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length]!;
+}